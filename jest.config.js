@@ -0,0 +1,12 @@
+// node-fetch is an ES module, so tests run as ES modules, see the test script
+const config = {
+    preset: 'ts-jest/presets/default-esm',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/tests'],
+    extensionsToTreatAsEsm: ['.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { useESM: true, tsconfig: { module: 'es2022' } }],
+    },
+};
+
+module.exports = config;
@@ -1,10 +1,12 @@
 import { Validator } from 'jsonschema';
 import child_process from 'node:child_process';
-import fetch from 'node-fetch';
+import fetch, { Response } from 'node-fetch';
 import { EventSource } from 'eventsource';
+import { EventEmitter } from 'node:events';
 
 const JSONRPC_VERSION = '2.0';
 const PROTOCOL_VERSION = '2025-06-18';
+const DEFAULT_REQUEST_TIMEOUT = 60 * 1000;
 
 export enum ErrorCode {
   // SDK error codes
@@ -18,6 +20,13 @@ export enum ErrorCode {
   MethodNotFound = -32601,
   InvalidParams = -32602,
   InternalError = -32603,
+
+  // Plugin error codes
+  RequestCancelled = -32800,
+  AuthorizationRequired = -32801,
+  InvalidToolOutput = -32802,
+  ToolCallDenied = -32803,
+  RateLimited = -32804,
 }
 
 export type RequestId = string | number;
@@ -26,6 +35,7 @@ export type ProgressToken = string | number;
 export interface ClientCapabilities {
   experimental?: Record<string, any>;
   sampling?: object;
+  elicitation?: object;
   roots?: {
     listChanged?: boolean;
   };
@@ -100,6 +110,19 @@ export interface McpClientConfig {
   // For HTTP/SSE
   url?: string;
   transport?: 'stdio' | 'streamableHttp' | 'sse';
+  // Extra headers sent with the SSE stream and every POST
+  headers?: Record<string, string>;
+  // Default timeout for requests in milliseconds
+  requestTimeout?: number;
+  // Supplies credentials for HTTP/SSE servers that require authorization
+  authProvider?: McpAuthProvider;
+}
+
+export interface McpAuthProvider {
+  // Access token sent as bearer token, if there is one
+  getAccessToken(): Promise<string | undefined>;
+  // Called when the server answered 401. Resolves true once new credentials are available and the request should be retried.
+  handleUnauthorized(wwwAuthenticate: string | null): Promise<boolean>;
 }
 
 export interface Annotated {
@@ -109,6 +132,65 @@ export interface Annotated {
   };
 }
 
+export interface Progress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface RequestOptions {
+  // Asks the server to send progress notifications for this request
+  progressToken?: ProgressToken;
+  onProgress?: (progress: Progress) => void;
+  // Aborting sends `notifications/cancelled` and rejects the request
+  signal?: AbortSignal;
+  // Overrides the client's request timeout, every progress notification restarts it
+  timeout?: number;
+}
+
+export interface ToolCallOptions extends RequestOptions {
+  // Output schema of the tool, results are checked against it
+  outputSchema?: any;
+}
+
+export interface CloseInfo {
+  reason: string;
+  // True when the connection was closed through `close()`
+  expected: boolean;
+  code?: number | null;
+  signal?: NodeJS.Signals | null;
+}
+
+export type LoggingLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+export interface LogMessage {
+  level: LoggingLevel;
+  logger?: string;
+  data: unknown;
+}
+
+export interface McpClientEvents {
+  close: [info: CloseInfo];
+  // Every notification sent by the server, including the ones below
+  notification: [notification: McpNotification];
+  toolsListChanged: [];
+  promptsListChanged: [];
+  resourcesListChanged: [];
+  resourceUpdated: [uri: string];
+  log: [message: LogMessage];
+  // Lines a stdio server wrote to stderr
+  stderr: [line: string];
+}
+
+export type ServerRequestHandler = (params: Record<string, unknown>, request: McpRequest) => Promise<any>;
+
+export interface ResourceSubscription {
+  uri: string;
+  subscribedAt: number;
+  updatedAt?: number;
+  changed: boolean;
+}
+
 export class McpError extends Error {
   constructor(
     public readonly code: ErrorCode,
@@ -120,7 +202,7 @@ export class McpError extends Error {
   }
 }
 
-export class McpClient {
+export class McpClient extends EventEmitter<McpClientEvents> {
   private proc?: child_process.ChildProcess;
   private requestId: number = 0;
   private pendingRequests: Map<
@@ -129,9 +211,14 @@ export class McpClient {
       resolve: Function;
       reject: Function;
       method: string;
+      pauseTimeout: () => void;
+      resumeTimeout: () => void;
     }
   > = new Map();
+  // Number of ongoing waits for the user, request timeouts are paused meanwhile
+  private userWaits: number = 0;
   private isConnected: boolean = false;
+  private isClosing: boolean = false;
   private capabilities?: ServerCapabilities;
   private initializePromise?: Promise<void>;
   private sessionId?: string;
@@ -140,6 +227,10 @@ export class McpClient {
   private httpEndpoint?: string;
   private postEndpoint?: string;
   private transport: 'stdio' | 'streamableHttp' | 'sse' = 'stdio';
+  private resourceSubscriptions: Map<string, ResourceSubscription> = new Map();
+  private resourceListChanged: boolean = false;
+  private progressHandlers: Map<ProgressToken, (progress: Progress) => void> = new Map();
+  private requestHandlers: Map<string, ServerRequestHandler> = new Map([['ping', async () => ({})]]);
 
   constructor(
     private config: McpClientConfig,
@@ -149,6 +240,7 @@ export class McpClient {
     },
     private clientCapabilities: ClientCapabilities = {},
   ) {
+    super();
     if (config.transport === 'streamableHttp' || config.transport === 'sse' || config.url) {
       if (config.transport) {
         this.transport = config.transport;
@@ -171,6 +263,7 @@ export class McpClient {
     if (this.initializePromise) {
       return this.initializePromise;
     }
+    this.isClosing = false;
 
     if (this.transport === 'stdio') {
       this.initializePromise = new Promise((resolve, reject) => {
@@ -196,8 +289,13 @@ export class McpClient {
         });
 
         this.proc.stderr?.on('data', (data) => {
-          // Log as info since these are usually initialization messages, not errors
-          console.log(`[MCP Server] ${data}`);
+          for (const line of data.toString().split('\n')) {
+            if (!line.trim()) continue;
+            // Log as info since these are usually initialization messages, not errors
+            if (!this.emit('stderr', line)) {
+              console.log(`[MCP Server] ${line}`);
+            }
+          }
         });
 
         this.proc.on('error', (error) => {
@@ -212,8 +310,14 @@ export class McpClient {
         });
 
         this.proc.on('exit', (code, signal) => {
+          const wasConnected = this.isConnected;
+          const reason = `Process exited with code ${code}${signal ? ` and signal ${signal}` : ''}`;
           this.isConnected = false;
           this.initializePromise = undefined;
+          this.rejectPendingRequests(new McpError(ErrorCode.ConnectionClosed, reason));
+          if (wasConnected) {
+            this.emit('close', { reason, expected: this.isClosing, code, signal });
+          }
           if (!this.proc?.killed) {
             reject(
               new McpError(
@@ -226,7 +330,8 @@ export class McpClient {
 
         setTimeout(async () => {
           try {
-            if (!this.proc?.stdin) {
+            // Without a pid the process failed to spawn, the request would only wait for its timeout
+            if (!this.proc?.stdin || this.proc.pid === undefined) {
               throw new McpError(ErrorCode.ConnectionClosed, 'Failed to start MCP server process');
             }
 
@@ -266,7 +371,26 @@ export class McpClient {
             reject(new McpError(ErrorCode.InvalidRequest, 'No SSE endpoint URL provided'));
             return;
           }
-          const es = new EventSource(this.httpEndpoint);
+          const es = new EventSource(this.httpEndpoint, {
+            fetch: async (url, init) => {
+              const withAuth = async () => {
+                const token = await this.config.authProvider?.getAccessToken();
+                const headers = { ...init.headers, ...this.config.headers };
+                if (token) {
+                  headers['Authorization'] = `Bearer ${token}`;
+                }
+                return globalThis.fetch(url, { ...init, headers });
+              };
+
+              const res = await withAuth();
+              if (res.status === 401 && this.config.authProvider) {
+                if (await this.config.authProvider.handleUnauthorized(res.headers.get('www-authenticate'))) {
+                  return withAuth();
+                }
+              }
+              return res;
+            },
+          });
           this.eventSource = es;
           
           es.onopen = () => {
@@ -326,6 +450,17 @@ export class McpClient {
           });
           es.onerror = (err: any) => {
             console.error('SSE connection error:', err);
+            // The stream will not reconnect by itself, so the session is gone
+            if (es.readyState === EventSource.CLOSED) {
+              const wasConnected = this.isConnected;
+              this.isConnected = false;
+              this.initializePromise = undefined;
+              this.rejectPendingRequests(new McpError(ErrorCode.ConnectionClosed, 'SSE connection closed'));
+              reject(new McpError(ErrorCode.ConnectionClosed, 'SSE connection closed'));
+              if (wasConnected) {
+                this.emit('close', { reason: 'SSE connection closed', expected: this.isClosing });
+              }
+            }
           };
         } catch (err) {
           reject(err);
@@ -334,22 +469,26 @@ export class McpClient {
       return this.initializePromise;
     } else if (this.transport === 'streamableHttp') {
       this.initializePromise = new Promise(async (resolve, reject) => {
+        // Tracked like any other request so it times out, the POST is aborted along with it
+        const id = ++this.requestId;
+        const controller = new AbortController();
+        let release: () => void = () => {};
+        const response = new Promise<any>((resolveResponse, rejectResponse) => {
+          release = this.registerPendingRequest(id, 'initialize', resolveResponse, rejectResponse, {});
+        });
+        response.catch(() => controller.abort());
+        const fail = (error: unknown) => {
+          release();
+          reject(error);
+        };
+
         try {
           // POST initialize
-          const headers: any = {
-            'Content-Type': 'application/json',
-            Accept: 'application/json, text/event-stream',
-            'MCP-Protocol-Version': PROTOCOL_VERSION,
-          };
-          if (this.sessionId) {
-            headers['Mcp-Session-Id'] = this.sessionId;
-          }
-          const res = await fetch(this.httpEndpoint!, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify({
+          const res = await this.post(
+            this.httpEndpoint!,
+            JSON.stringify({
               jsonrpc: JSONRPC_VERSION,
-              id: ++this.requestId,
+              id,
               method: 'initialize',
               params: {
                 protocolVersion: PROTOCOL_VERSION,
@@ -357,10 +496,11 @@ export class McpClient {
                 clientInfo: this.clientInfo,
               },
             }),
-          });
+            controller.signal,
+          );
           if (!res.ok) {
             const errorText = await res.text();
-            reject(new McpError(ErrorCode.ConnectionClosed, `HTTP error: ${res.status} - ${errorText}`));
+            fail(new McpError(ErrorCode.ConnectionClosed, `HTTP error: ${res.status} - ${errorText}`));
             return;
           }
           // Get session id if present
@@ -369,41 +509,45 @@ export class McpClient {
             this.sessionId = sessionId;
           }
           const restText = await res.text();
-          let result: any;
+          let message: any;
           try {
-            result = JSON.parse(restText);
+            message = JSON.parse(restText);
           } catch (e) {
             // Try to parse as SSE event: event: message\ndata: {...}
             const match = restText.match(/data: (\{[\s\S]*\})/);
             if (match) {
               try {
-                result = JSON.parse(match[1]);
+                message = JSON.parse(match[1]);
               } catch (e2) {
-                reject(new McpError(ErrorCode.ParseError, 'Failed to parse SSE data as JSON'));
+                fail(new McpError(ErrorCode.ParseError, 'Failed to parse SSE data as JSON'));
                 return;
               }
             } else {
-              reject(new McpError(ErrorCode.ParseError, 'Failed to parse initialization response as JSON or SSE'));
+              fail(new McpError(ErrorCode.ParseError, 'Failed to parse initialization response as JSON or SSE'));
               return;
             }
           }
-          if (!this.isProtocolVersionSupported(result.result?.protocolVersion)) {
+          // Settles the pending request, an error response rejects it
+          this.handleMessage(message);
+          const result = await response;
+          if (!this.isProtocolVersionSupported(result?.protocolVersion)) {
             reject(
               new McpError(
                 ErrorCode.UnsupportedProtocolVersion,
-                `Server protocol version ${result.result?.protocolVersion} is not supported`,
+                `Server protocol version ${result?.protocolVersion} is not supported`,
               ),
             );
             return;
           }
-          this.capabilities = result.result?.capabilities;
+          this.capabilities = result?.capabilities;
           this.isConnected = true;
-          this.negotiatedProtocolVersion = result.result?.protocolVersion || PROTOCOL_VERSION;
+          this.negotiatedProtocolVersion = result?.protocolVersion || PROTOCOL_VERSION;
           // Send initialized notification
           await this.sendNotification('notifications/initialized');
           resolve();
         } catch (err) {
-          reject(err);
+          // A timeout aborts the POST, report the timeout rather than the abort
+          fail(controller.signal.aborted ? await response.catch((error) => error) : err);
         }
       });
       return this.initializePromise;
@@ -416,32 +560,49 @@ export class McpClient {
     return true;
   }
 
-  public async close(): Promise<void> {
-    if (!this.isConnected) return;
+  /**
+   * Closes the connection. A stdio process that does not exit within `forceKillAfter` milliseconds is killed.
+   */
+  public async close(forceKillAfter?: number): Promise<void> {
+    // A stdio process may still be alive when initialization failed
+    if (!this.isConnected && !this.proc) return;
+    this.isClosing = true;
     if (this.transport === 'stdio') {
       return new Promise((resolve) => {
-        if (!this.proc) {
+        if (!this.proc || this.proc.exitCode !== null || this.proc.signalCode !== null) {
+          this.isConnected = false;
+          this.initializePromise = undefined;
           resolve();
           return;
         }
 
-        this.proc.on('close', () => {
+        const proc = this.proc;
+        const forceKillTimer =
+          forceKillAfter !== undefined
+            ? setTimeout(() => {
+                console.warn(`[MCP] Process ${proc.pid} did not exit in time, killing it`);
+                proc.kill('SIGKILL');
+              }, forceKillAfter)
+            : undefined;
+
+        proc.on('close', () => {
+          clearTimeout(forceKillTimer);
           this.isConnected = false;
           this.initializePromise = undefined;
           resolve();
         });
 
-        if (this.proc) {
-          this.proc.kill();
-        }
+        proc.kill();
       });
     } else if (this.transport === 'streamableHttp' || this.transport === 'sse') {
       if (this.eventSource) {
         this.eventSource.close();
         this.eventSource = undefined;
       }
+      this.rejectPendingRequests(new McpError(ErrorCode.ConnectionClosed, 'Connection closed'));
       this.isConnected = false;
       this.initializePromise = undefined;
+      this.emit('close', { reason: 'Connection closed', expected: true });
     }
   }
 
@@ -449,12 +610,217 @@ export class McpClient {
     return this.sendRequest('tools/list', {});
   }
 
-  public async callTool(params: { name: string; arguments: any }, schema: any): Promise<any> {
+  /**
+   * Calls a tool after validating its arguments. If the tool has an output schema, a result whose structured
+   * content is missing or doesn't match it is rejected with `InvalidToolOutput`, the result is in the error data.
+   */
+  public async callTool(
+    params: { name: string; arguments: any },
+    schema: any,
+    options: ToolCallOptions = {},
+  ): Promise<any> {
     new Validator().validate(params.arguments, schema, { throwError: true });
-    return this.sendRequest('tools/call', params);
+    const { outputSchema, ...requestOptions } = options;
+    const result = await this.sendRequest('tools/call', params, requestOptions);
+    if (!outputSchema) {
+      return result;
+    }
+
+    const errors =
+      result?.structuredContent === undefined
+        ? ['structured content is missing']
+        : new Validator().validate(result.structuredContent, outputSchema).errors.map((error) => error.stack);
+    if (errors.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidToolOutput,
+        `Tool "${params.name}" returned a result that doesn't match its output schema: ${errors.join(', ')}`,
+        { errors, result },
+      );
+    }
+    return result;
+  }
+
+  public async listResources(cursor?: string): Promise<any> {
+    this.assertResourcesSupported();
+    const result = await this.sendRequest('resources/list', cursor ? { cursor } : {});
+    this.resourceListChanged = false;
+    return result;
+  }
+
+  public async listResourceTemplates(cursor?: string): Promise<any> {
+    this.assertResourcesSupported();
+    return this.sendRequest('resources/templates/list', cursor ? { cursor } : {});
+  }
+
+  public async readResource(uri: string): Promise<any> {
+    this.assertResourcesSupported();
+    const result = await this.sendRequest('resources/read', { uri });
+    const subscription = this.resourceSubscriptions.get(uri);
+    if (subscription) {
+      subscription.changed = false;
+    }
+    return result;
+  }
+
+  public async subscribe(uri: string): Promise<void> {
+    this.assertResourcesSupported();
+    if (!this.capabilities?.resources?.subscribe) {
+      throw new McpError(ErrorCode.MethodNotFound, 'Server does not support resource subscriptions');
+    }
+    await this.sendRequest('resources/subscribe', { uri });
+    if (!this.resourceSubscriptions.has(uri)) {
+      this.resourceSubscriptions.set(uri, { uri, subscribedAt: Date.now(), changed: false });
+    }
+  }
+
+  public async unsubscribe(uri: string): Promise<void> {
+    this.assertResourcesSupported();
+    await this.sendRequest('resources/unsubscribe', { uri });
+    this.resourceSubscriptions.delete(uri);
+  }
+
+  /**
+   * Returns subscribed resources. `changed` is set when the server sent an update since the last read.
+   */
+  public getResourceSubscriptions(): ResourceSubscription[] {
+    return Array.from(this.resourceSubscriptions.values()).map((subscription) => ({ ...subscription }));
+  }
+
+  public hasResourceListChanged(): boolean {
+    return this.resourceListChanged;
+  }
+
+  public async listPrompts(cursor?: string): Promise<any> {
+    if (this.capabilities && !this.capabilities.prompts) {
+      throw new McpError(ErrorCode.MethodNotFound, 'Server does not support prompts');
+    }
+    return this.sendRequest('prompts/list', cursor ? { cursor } : {});
+  }
+
+  public async getPrompt(name: string, args: Record<string, string> = {}): Promise<any> {
+    if (this.capabilities && !this.capabilities.prompts) {
+      throw new McpError(ErrorCode.MethodNotFound, 'Server does not support prompts');
+    }
+    return this.sendRequest('prompts/get', { name, arguments: args });
+  }
+
+  public async setLogLevel(level: LoggingLevel): Promise<void> {
+    if (this.capabilities && !this.capabilities.logging) {
+      throw new McpError(ErrorCode.MethodNotFound, 'Server does not support logging');
+    }
+    await this.sendRequest('logging/setLevel', { level });
+  }
+
+  /**
+   * Tells the server to request `roots/list` again
+   */
+  public async notifyRootsListChanged(): Promise<void> {
+    await this.sendNotification('notifications/roots/list_changed');
+  }
+
+  private assertResourcesSupported(): void {
+    if (this.capabilities && !this.capabilities.resources) {
+      throw new McpError(ErrorCode.MethodNotFound, 'Server does not support resources');
+    }
+  }
+
+  /**
+   * Tracks a request until its response arrives, wiring up progress and cancellation.
+   * Returns a function that stops tracking it without settling it.
+   */
+  private registerPendingRequest(
+    id: RequestId,
+    method: string,
+    resolve: Function,
+    reject: Function,
+    options: RequestOptions,
+  ): () => void {
+    const { progressToken, onProgress, signal } = options;
+    const timeout = options.timeout ?? this.config.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+
+    const cleanup = () => {
+      this.pendingRequests.delete(id);
+      if (progressToken !== undefined) {
+        this.progressHandlers.delete(progressToken);
+      }
+      signal?.removeEventListener('abort', onAbort);
+      clearTimeout(timer);
+    };
+
+    const cancel = (error: McpError, reason: string) => {
+      if (!this.pendingRequests.has(id)) return;
+      cleanup();
+      if (this.isConnected) {
+        this.sendNotification('notifications/cancelled', { requestId: id, reason }).catch((error) => {
+          console.error('[MCP] Failed to send cancellation:', error);
+        });
+      }
+      reject(error);
+    };
+
+    const onAbort = () => {
+      const reason = signal?.reason instanceof Error ? signal.reason.message : String(signal?.reason ?? 'Cancelled');
+      cancel(new McpError(ErrorCode.RequestCancelled, `Request was cancelled: ${reason}`), reason);
+    };
+
+    const startTimer = () => {
+      clearTimeout(timer);
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          cancel(
+            new McpError(ErrorCode.RequestTimeout, `Request "${method}" timed out after ${timeout}ms`, { timeout }),
+            'Request timed out',
+          );
+        }, timeout);
+      }
+    };
+
+    if (progressToken !== undefined) {
+      this.progressHandlers.set(progressToken, (progress) => {
+        if (this.userWaits === 0) {
+          startTimer();
+        }
+        onProgress?.(progress);
+      });
+    }
+    signal?.addEventListener('abort', onAbort);
+    if (this.userWaits === 0) {
+      startTimer();
+    }
+
+    this.pendingRequests.set(id, {
+      resolve: (value: any) => {
+        cleanup();
+        resolve(value);
+      },
+      reject: (error: any) => {
+        cleanup();
+        reject(error);
+      },
+      method,
+      pauseTimeout: () => clearTimeout(timer),
+      resumeTimeout: startTimer,
+    });
+    return cleanup;
+  }
+
+  /**
+   * Rejects every request still waiting for a response, e.g. when the transport went away
+   */
+  private rejectPendingRequests(error: McpError): void {
+    for (const pending of Array.from(this.pendingRequests.values())) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
   }
 
-  private async sendRequest(method: string, params: any, progressToken?: ProgressToken): Promise<any> {
+  private async sendRequest(method: string, params: any, options: RequestOptions = {}): Promise<any> {
+    const { progressToken } = options;
+    if (options.signal?.aborted) {
+      throw new McpError(ErrorCode.RequestCancelled, 'Request was cancelled before it was sent');
+    }
+
     if (this.transport === 'stdio') {
       // For initialization requests, we don't want to check isConnected
       if (method !== 'initialize' && (!this.isConnected || !this.proc?.stdin)) {
@@ -469,14 +835,16 @@ export class McpClient {
           method,
           params: {
             ...params,
-            _meta: progressToken ? { progressToken } : undefined,
+            _meta: progressToken !== undefined ? { progressToken } : undefined,
           },
         };
 
-        this.pendingRequests.set(id, { resolve, reject, method });
+        const release = this.registerPendingRequest(id, method, resolve, reject, options);
 
         if (!this.proc?.stdin) {
-          throw new McpError(ErrorCode.ConnectionClosed, 'Process stdin is not available');
+          release();
+          reject(new McpError(ErrorCode.ConnectionClosed, 'Process stdin is not available'));
+          return;
         }
         this.proc.stdin.write(JSON.stringify(request) + '\n');
       });
@@ -493,18 +861,14 @@ export class McpClient {
           method,
           params: {
             ...params,
-            _meta: progressToken ? { progressToken } : undefined,
+            _meta: progressToken !== undefined ? { progressToken } : undefined,
           },
         };
-        this.pendingRequests.set(id, { resolve, reject, method });
-        const headers: any = {
-          'Content-Type': 'application/json',
-          Accept: 'application/json, text/event-stream',
-          'MCP-Protocol-Version': this.negotiatedProtocolVersion,
-        };
+        const release = this.registerPendingRequest(id, method, resolve, reject, options);
         // For sse transport, POST to postEndpoint (or httpEndpoint) with sessionId as query param
         let postUrl = this.postEndpoint || this.httpEndpoint;
         if (!postUrl) {
+          release();
           reject(new McpError(ErrorCode.ConnectionClosed, 'No POST endpoint configured for SSE transport'));
           return;
         }
@@ -514,17 +878,15 @@ export class McpClient {
           urlObj.searchParams.set('sessionId', this.sessionId);
         }
         try {
-          const res = await fetch(urlObj.href, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(request),
-          });
+          const res = await this.post(urlObj.href, JSON.stringify(request));
           if (!res.ok) {
             const errorText = await res.text();
+            release();
             reject(new McpError(ErrorCode.ConnectionClosed, `HTTP error: ${res.status} - ${errorText}`));
             return;
           }
         } catch (err) {
+          release();
           reject(err);
         }
       });
@@ -540,41 +902,38 @@ export class McpClient {
           method,
           params: {
             ...params,
-            _meta: progressToken ? { progressToken } : undefined,
+            _meta: progressToken !== undefined ? { progressToken } : undefined,
           },
         };
-        this.pendingRequests.set(id, { resolve, reject, method });
-        const headers: any = {
-          'Content-Type': 'application/json',
-          Accept: 'application/json, text/event-stream',
-          'MCP-Protocol-Version': this.negotiatedProtocolVersion,
-        };
-        if (this.sessionId) {
-          headers['Mcp-Session-Id'] = this.sessionId;
-        }
+        const release = this.registerPendingRequest(id, method, resolve, reject, options);
         let res;
         try {
-          res = await fetch(this.httpEndpoint!, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(request),
-          });
+          res = await this.post(this.httpEndpoint!, JSON.stringify(request));
         } catch (err) {
-          reject(new McpError(ErrorCode.ConnectionClosed, 'Network error: ' + (err as Error).message));
+          release();
+          reject(
+            err instanceof McpError
+              ? err
+              : new McpError(ErrorCode.ConnectionClosed, 'Network error: ' + (err as Error).message),
+          );
           return;
         }
         // Handle session expired (404) per spec
         if (res.status === 404 && this.sessionId) {
-          // Session expired, clear and re-initialize
+          // Session expired, clear and re-initialize. The retry is tracked as a new request.
+          release();
           this.sessionId = undefined;
           this.isConnected = false;
           this.initializePromise = undefined;
           try {
             await this.connect();
             // Retry the request after re-initialization
-            resolve(await this.sendRequest(method, params, progressToken));
+            resolve(await this.sendRequest(method, params, options));
           } catch (e) {
-            reject(new McpError(ErrorCode.ConnectionClosed, 'Session expired and re-initialization failed'));
+            const error = new McpError(ErrorCode.ConnectionClosed, 'Session expired and re-initialization failed');
+            this.rejectPendingRequests(error);
+            reject(error);
+            this.emit('close', { reason: error.message, expected: false });
           }
           return;
         }
@@ -587,6 +946,7 @@ export class McpClient {
           // Parse SSE stream directly from POST response body
           const body = res.body;
           if (!body || typeof body[Symbol.asyncIterator] !== 'function') {
+            release();
             reject(new McpError(ErrorCode.ConnectionClosed, 'No stream available for SSE response'));
             return;
           }
@@ -608,8 +968,10 @@ export class McpClient {
               }
             }
           }
+          release();
           resolve(undefined);
         } else {
+          release();
           reject(new McpError(ErrorCode.ConnectionClosed, `Unexpected content-type: ${contentType}`));
         }
       });
@@ -632,13 +994,20 @@ export class McpClient {
         : undefined,
     };
 
+    await this.sendMessage(notification);
+  }
+
+  /**
+   * Writes a message that does not expect a response (notification or response to a server request)
+   */
+  private async sendMessage(message: McpNotification | McpResponse): Promise<void> {
     if (this.transport === 'stdio') {
       if (!this.proc?.stdin) {
         throw new McpError(ErrorCode.ConnectionClosed, 'Process stdin is not available');
       }
-      this.proc.stdin.write(JSON.stringify(notification) + '\n');
+      this.proc.stdin.write(JSON.stringify(message) + '\n');
     } else if (this.transport === 'sse') {
-      // For SSE transport, send notifications via POST endpoint just like requests
+      // For SSE transport, send messages via POST endpoint just like requests
       let postUrl = this.postEndpoint || this.httpEndpoint;
       if (!postUrl) {
         throw new McpError(ErrorCode.ConnectionClosed, 'No POST endpoint configured for SSE transport');
@@ -648,40 +1017,130 @@ export class McpClient {
         // Add sessionId as query param
         urlObj.searchParams.set('sessionId', this.sessionId);
       }
-      
-      const headers: any = {
-        'Content-Type': 'application/json',
-        Accept: 'application/json, text/event-stream',
-        'MCP-Protocol-Version': this.negotiatedProtocolVersion,
-      };
-      
-      await fetch(urlObj.href, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(notification),
-      });
+
+      await this.post(urlObj.href, JSON.stringify(message));
     } else if (this.transport === 'streamableHttp') {
-      const headers: any = {
-        'Content-Type': 'application/json',
-        Accept: 'application/json, text/event-stream',
-        'MCP-Protocol-Version': this.negotiatedProtocolVersion,
+      await this.post(this.httpEndpoint!, JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Headers for every POST to an HTTP/SSE server
+   */
+  private async createHttpHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      ...this.config.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'MCP-Protocol-Version': this.negotiatedProtocolVersion,
+    };
+    // The sse transport passes the session as query param instead
+    if (this.transport === 'streamableHttp' && this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    const token = await this.config.authProvider?.getAccessToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  /**
+   * POSTs a JSON-RPC message, authorizing and retrying once if the server answers 401
+   */
+  private async post(url: string, body: string, signal?: AbortSignal): Promise<Response> {
+    const res = await fetch(url, { method: 'POST', headers: await this.createHttpHeaders(), body, signal });
+    const { authProvider } = this.config;
+    if (res.status !== 401 || !authProvider) {
+      return res;
+    }
+
+    if (!(await this.waitForUser(() => authProvider.handleUnauthorized(res.headers.get('www-authenticate'))))) {
+      return res;
+    }
+    return fetch(url, { method: 'POST', headers: await this.createHttpHeaders(), body, signal });
+  }
+
+  /**
+   * Pauses request timeouts while waiting for the user, e.g. to answer an elicitation or to authorize.
+   * The request that caused the wait can't be told apart over every transport, so all of them are paused.
+   */
+  private async waitForUser<T>(task: () => Promise<T>): Promise<T> {
+    if (this.userWaits++ === 0) {
+      this.pendingRequests.forEach((pending) => pending.pauseTimeout());
+    }
+    try {
+      return await task();
+    } finally {
+      if (--this.userWaits === 0) {
+        this.pendingRequests.forEach((pending) => pending.resumeTimeout());
+      }
+    }
+  }
+
+  /**
+   * Registers a handler for requests initiated by the server, e.g. `sampling/createMessage`
+   */
+  public setRequestHandler(method: string, handler: ServerRequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  private async handleServerRequest(request: McpRequest): Promise<void> {
+    const handler = this.requestHandlers.get(request.method);
+    let response: McpResponse;
+
+    if (!handler) {
+      response = {
+        jsonrpc: JSONRPC_VERSION,
+        id: request.id,
+        error: {
+          code: ErrorCode.MethodNotFound,
+          message: `Method not found: ${request.method}`,
+        },
       };
-      if (this.sessionId) {
-        headers['Mcp-Session-Id'] = this.sessionId;
+    } else {
+      try {
+        const { _meta, ...params } = request.params || {};
+        // Sampling and elicitation can take minutes
+        const result =
+          request.method === 'ping'
+            ? await handler(params, request)
+            : await this.waitForUser(() => handler(params, request));
+        response = {
+          jsonrpc: JSONRPC_VERSION,
+          id: request.id,
+          result: result || {},
+        };
+      } catch (error: any) {
+        response = {
+          jsonrpc: JSONRPC_VERSION,
+          id: request.id,
+          error: {
+            code: error instanceof McpError ? error.code : ErrorCode.InternalError,
+            message: error instanceof McpError ? error.message : error?.message || 'Internal error',
+            data: error instanceof McpError ? error.data : undefined,
+          },
+        };
       }
-      await fetch(this.httpEndpoint!, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(notification),
-      });
+    }
+
+    try {
+      await this.sendMessage(response);
+    } catch (error) {
+      console.error(`[MCP] Failed to respond to server request "${request.method}":`, error);
     }
   }
 
-  private handleMessage(message: McpResponse | McpNotification): void {
+  private handleMessage(message: McpResponse | McpNotification | McpRequest): void {
     // Handle notifications
     if (!('id' in message)) {
-      // We don't handle notifications currently
-      console.debug('[MCP] Received notification:', message);
+      this.handleNotification(message);
+      return;
+    }
+
+    // Handle requests initiated by the server
+    if ('method' in message) {
+      this.handleServerRequest(message);
       return;
     }
 
@@ -724,6 +1183,69 @@ export class McpClient {
     }
   }
 
+  private handleNotification(notification: McpNotification): void {
+    this.emit('notification', notification);
+
+    switch (notification.method) {
+      case 'notifications/tools/list_changed':
+        this.emit('toolsListChanged');
+        break;
+      case 'notifications/prompts/list_changed':
+        this.emit('promptsListChanged');
+        break;
+      case 'notifications/message': {
+        const { level, logger, data } = notification.params || {};
+        this.emit('log', {
+          level: (level as LoggingLevel) || 'info',
+          logger: logger as string | undefined,
+          data,
+        });
+        break;
+      }
+      case 'notifications/resources/updated': {
+        const uri = notification.params?.uri as string | undefined;
+        const subscription = uri ? this.resourceSubscriptions.get(uri) : undefined;
+        if (subscription) {
+          subscription.updatedAt = Date.now();
+          subscription.changed = true;
+        }
+        if (uri) {
+          this.emit('resourceUpdated', uri);
+        }
+        break;
+      }
+      case 'notifications/resources/list_changed':
+        this.resourceListChanged = true;
+        this.emit('resourcesListChanged');
+        break;
+      case 'notifications/progress': {
+        const { progressToken, progress, total, message } = notification.params || {};
+        const handler = this.progressHandlers.get(progressToken as ProgressToken);
+        if (handler) {
+          handler({
+            progress: progress as number,
+            total: total as number | undefined,
+            message: message as string | undefined,
+          });
+        }
+        break;
+      }
+      default:
+        console.debug('[MCP] Received notification:', notification);
+    }
+  }
+
+  /**
+   * Process id of a stdio server
+   */
+  public getPid(): number | undefined {
+    return this.proc?.pid;
+  }
+
+  public getTransport(): 'stdio' | 'streamableHttp' | 'sse' {
+    return this.transport;
+  }
+
   public getCapabilities(): ServerCapabilities | undefined {
     return this.capabilities;
   }
@@ -0,0 +1,176 @@
+import os from 'node:os';
+import { McpServerEntry } from './mcp';
+
+export type McpConfigFormat = 'claude' | 'cursor' | 'vscode';
+
+export const MCP_CONFIG_FORMATS: McpConfigFormat[] = ['claude', 'cursor', 'vscode'];
+
+/**
+ * Prompt for a value VS Code asks the user for, referenced as ${input:id}
+ */
+export interface McpConfigInput {
+  id: string;
+  type?: string;
+  description?: string;
+  password?: boolean;
+}
+
+export interface ParsedMcpConfig {
+  format: McpConfigFormat;
+  servers: Record<string, any>;
+  inputs: McpConfigInput[];
+}
+
+export interface ConvertedServer {
+  entry?: McpServerEntry;
+  error?: string;
+  warnings: string[];
+  missingInputs: string[];
+}
+
+/**
+ * Detects the format of a config file. Claude Desktop and Cursor share the `mcpServers` layout,
+ * VS Code uses `servers` either at the top level of mcp.json or under `mcp` in settings.json.
+ */
+export function parseMcpConfig(config: any, format?: McpConfigFormat): ParsedMcpConfig {
+  if (!config || typeof config !== 'object') {
+    throw new Error('Config must be a JSON object');
+  }
+
+  const vscode = config.mcp && typeof config.mcp === 'object' ? config.mcp : config;
+  if ((format === undefined || format === 'vscode') && vscode.servers && typeof vscode.servers === 'object') {
+    return {
+      format: 'vscode',
+      servers: vscode.servers,
+      inputs: Array.isArray(vscode.inputs) ? vscode.inputs : [],
+    };
+  }
+  if (format !== 'vscode' && config.mcpServers && typeof config.mcpServers === 'object') {
+    return { format: format || 'claude', servers: config.mcpServers, inputs: [] };
+  }
+
+  throw new Error(format ? `Config is not in ${format} format` : 'Config has neither "mcpServers" nor "servers"');
+}
+
+/**
+ * Converts a server of an imported config to a server entry, substituting ${input:id} with the given values
+ */
+export function convertImportedServer(name: string, server: any, inputs: Record<string, string>): ConvertedServer {
+  const converted: ConvertedServer = { warnings: [], missingInputs: [] };
+  if (!server || typeof server !== 'object') {
+    converted.error = 'Server is not an object';
+    return converted;
+  }
+
+  const substitute = (value: unknown, field: string, supportsEnv: boolean): string => {
+    const text = String(value)
+      .replace(/\$\{input:([^}]+)\}/g, (match, id: string) => {
+        if (inputs[id] === undefined) {
+          if (!converted.missingInputs.includes(id)) {
+            converted.missingInputs.push(id);
+          }
+          return match;
+        }
+        return inputs[id];
+      })
+      .replace(/\$\{userHome\}/g, os.homedir())
+      .replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, '${$1}');
+
+    if (!supportsEnv && /\$\{(?!input:)[^}]*\}/.test(text)) {
+      converted.warnings.push(`Variables in ${field} are not substituted`);
+    }
+    return text;
+  };
+  const substituteRecord = (record: unknown, field: string) =>
+    record && typeof record === 'object'
+      ? Object.fromEntries(
+          Object.entries(record).map(([key, value]) => [key, substitute(value, `${field}.${key}`, true)]),
+        )
+      : undefined;
+
+  const type = server.type === 'http' || server.type === 'streamable-http' ? 'streamableHttp' : server.type;
+  if (server.command && (type === undefined || type === 'stdio')) {
+    converted.entry = {
+      name,
+      type: 'stdio',
+      command: substitute(server.command, 'command', false),
+      args: Array.isArray(server.args) ? server.args.map((arg: unknown) => substitute(arg, 'args', false)) : [],
+      env: substituteRecord(server.env, 'env') || {},
+    };
+    if (server.envFile) {
+      converted.warnings.push('envFile is not supported, add its variables to env');
+    }
+  } else if (server.url && (type === undefined || type === 'streamableHttp' || type === 'sse')) {
+    converted.entry = {
+      name,
+      // Cursor and Claude Code pick the transport themselves, streamable HTTP is the current one
+      type: type || 'streamableHttp',
+      url: substitute(server.url, 'url', false),
+      args: [],
+      env: {},
+    };
+    const headers = substituteRecord(server.headers, 'headers');
+    if (headers && Object.keys(headers).length > 0) {
+      converted.entry.headers = headers;
+    }
+  } else {
+    converted.error =
+      server.command || server.url ? `Unsupported transport type: ${server.type}` : 'Missing command or url';
+  }
+  return converted;
+}
+
+/**
+ * Converts server entries to a config file of another client. Stripped secrets are left empty,
+ * VS Code gets prompts for them instead.
+ */
+export function exportMcpConfig(
+  servers: Record<string, McpServerEntry>,
+  format: McpConfigFormat,
+  stripSecrets: boolean,
+): Record<string, any> {
+  const inputs: McpConfigInput[] = [];
+  const exportValue = (serverName: string, field: string, key: string, value: string) => {
+    // References to environment variables stay references
+    const variable = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+    if (!stripSecrets || variable.test(value)) {
+      return format === 'claude' ? value : value.replace(variable, '${env:$1}');
+    }
+    if (format !== 'vscode') {
+      return '';
+    }
+
+    const id = `${serverName}-${key}`.replace(/[^\w-]/g, '-');
+    inputs.push({ id, type: 'promptString', description: `${field} ${key} of ${serverName}`, password: true });
+    return `\${input:${id}}`;
+  };
+  const exportRecord = (serverName: string, field: string, record: Record<string, string>) =>
+    Object.fromEntries(Object.entries(record).map(([key, value]) => [key, exportValue(serverName, field, key, value)]));
+
+  const exported: Record<string, any> = {};
+  for (const [name, config] of Object.entries(servers)) {
+    const type = config.type || 'stdio';
+    if (type === 'stdio') {
+      exported[name] = {
+        ...(format === 'vscode' ? { type: 'stdio' } : {}),
+        command: config.command,
+        args: config.args || [],
+        env: exportRecord(name, 'env', config.env || {}),
+      };
+      continue;
+    }
+
+    const headers = exportRecord(name, 'headers', config.headers || {});
+    if (config.bearerToken) {
+      headers['Authorization'] = `Bearer ${exportValue(name, 'bearerToken', 'token', config.bearerToken)}`;
+    }
+    exported[name] = {
+      // Cursor detects the transport from the URL
+      ...(format === 'cursor' ? {} : { type: type === 'sse' ? 'sse' : 'http' }),
+      url: config.url,
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+    };
+  }
+
+  return format === 'vscode' ? { inputs, servers: exported } : { mcpServers: exported };
+}
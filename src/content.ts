@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { McpClient } from './McpClient';
+import { UserDirectoryList } from './mcp';
+
+/**
+ * Content block of a tool result as returned to the frontend. Binary media is saved to the user's directories
+ * and referenced by URL instead of being sent as base64.
+ */
+export type McpContentBlock =
+  | { type: 'text'; text: string; annotations?: any }
+  | { type: 'image' | 'audio'; url: string; mimeType: string; annotations?: any }
+  | {
+      type: 'resource';
+      uri: string;
+      mimeType?: string;
+      text?: string; // Text resources are kept inline
+      url?: string; // Binary resources are saved like media
+      annotations?: any;
+    }
+  | {
+      type: 'resource_link';
+      uri: string;
+      name: string;
+      title?: string;
+      description?: string;
+      mimeType?: string;
+      size?: number;
+      error?: string; // Why the link couldn't be resolved
+      annotations?: any;
+    };
+
+export interface ContentOptions {
+  serverName: string;
+  client?: McpClient; // Resolves resource links when given
+}
+
+// SVG is left out on purpose, it's served from SillyTavern's origin and may contain scripts
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+  'application/pdf': 'pdf',
+  'application/json': 'json',
+  'text/plain': 'txt',
+};
+
+/**
+ * Saves base64 data to the user's directories, returning the URL SillyTavern serves it from.
+ * Images go to the user's image gallery, everything else to the user's files.
+ */
+function saveBinary(directories: UserDirectoryList, serverName: string, data: string, mimeType: string): string {
+  if (typeof data !== 'string' || typeof mimeType !== 'string') {
+    throw new Error(`Server "${serverName}" returned binary content without data or MIME type`);
+  }
+  const extension = EXTENSIONS[mimeType.toLowerCase()] || 'bin';
+  const safeServerName = serverName.replace(/[^\w.-]/g, '_');
+
+  const directoryKey = mimeType.startsWith('image/') && extension !== 'bin' ? 'userImages' : 'files';
+  if (!directories[directoryKey]) {
+    throw new Error(`User directory "${directoryKey}" is not available`);
+  }
+
+  let filePath: string;
+  let url: string;
+  if (directoryKey === 'userImages') {
+    const fileName = `${randomUUID()}.${extension}`;
+    filePath = path.join(directories.userImages, 'mcp', safeServerName, fileName);
+    url = `/user/images/mcp/${encodeURIComponent(safeServerName)}/${fileName}`;
+  } else {
+    // The files directory is flat, the server name is kept in the file name instead
+    const fileName = `mcp_${safeServerName}_${randomUUID()}.${extension}`;
+    filePath = path.join(directories.files, fileName);
+    url = `/user/files/${encodeURIComponent(fileName)}`;
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, Buffer.from(data, 'base64'));
+  return url;
+}
+
+/**
+ * Converts the contents of a read resource to content blocks
+ */
+function normalizeResourceContents(
+  directories: UserDirectoryList,
+  serverName: string,
+  contents: any,
+  annotations?: any,
+): McpContentBlock {
+  const mimeType = contents?.mimeType || 'application/octet-stream';
+  if (typeof contents?.blob === 'string') {
+    return {
+      type: 'resource',
+      uri: contents.uri,
+      mimeType,
+      url: saveBinary(directories, serverName, contents.blob, mimeType),
+      annotations,
+    };
+  }
+  return {
+    type: 'resource',
+    uri: contents?.uri,
+    mimeType: contents?.mimeType,
+    text: contents?.text ?? '',
+    annotations,
+  };
+}
+
+/**
+ * Text block that takes the place of a block that could not be saved, so the rest of the result is kept
+ */
+function unsavedContentNote(type: string, error: any): McpContentBlock {
+  return { type: 'text', text: `[The ${type} content could not be saved: ${error?.message || error}]` };
+}
+
+/**
+ * Normalizes the content blocks of a tool result: media is saved and replaced by URLs, embedded resources are
+ * unpacked and resource links are resolved if a client is given. Unknown block types are passed through.
+ */
+export async function normalizeToolContent(
+  directories: UserDirectoryList,
+  content: unknown,
+  options: ContentOptions,
+): Promise<McpContentBlock[]> {
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const { serverName, client } = options;
+  const blocks: McpContentBlock[] = [];
+  for (const block of content) {
+    switch (block?.type) {
+      case 'image':
+      case 'audio':
+        try {
+          blocks.push({
+            type: block.type,
+            url: saveBinary(directories, serverName, block.data, block.mimeType),
+            mimeType: block.mimeType,
+            annotations: block.annotations,
+          });
+        } catch (error: any) {
+          blocks.push(unsavedContentNote(block.type, error));
+        }
+        break;
+      case 'resource':
+        try {
+          blocks.push(normalizeResourceContents(directories, serverName, block.resource, block.annotations));
+        } catch (error: any) {
+          blocks.push(unsavedContentNote(block.type, error));
+        }
+        break;
+      case 'resource_link': {
+        const { type, uri, name, title, description, mimeType, size, annotations } = block;
+        const link: McpContentBlock = { type, uri, name, title, description, mimeType, size, annotations };
+        if (!client) {
+          blocks.push(link);
+          break;
+        }
+
+        try {
+          const result = await client.readResource(uri);
+          for (const contents of result?.contents || []) {
+            blocks.push(normalizeResourceContents(directories, serverName, contents, annotations));
+          }
+        } catch (error: any) {
+          // The link is still useful to the frontend, so keep it with the reason
+          blocks.push({ ...link, error: error?.message || String(error) });
+        }
+        break;
+      }
+      default:
+        blocks.push(block);
+    }
+  }
+  return blocks;
+}
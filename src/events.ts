@@ -0,0 +1,85 @@
+import { Response } from 'express';
+
+export type McpEventType =
+  | 'server.started'
+  | 'server.stopped'
+  | 'server.exited'
+  | 'server.restarting'
+  | 'server.crashed'
+  | 'tools.changed'
+  | 'resources.changed'
+  | 'resource.updated'
+  | 'prompts.changed'
+  | 'call.progress'
+  | 'log'
+  | 'sampling.requested'
+  | 'sampling.resolved'
+  | 'elicitation.requested'
+  | 'elicitation.resolved'
+  | 'approval.requested'
+  | 'approval.resolved'
+  | 'auth.required'
+  | 'auth.completed'
+  | 'settings.changed'
+  | 'settings.invalid';
+
+// Open event streams per user handle
+const subscribers: Map<string, Set<Response>> = new Map();
+
+// Proxies close idle connections, so send a comment now and then
+const KEEP_ALIVE_INTERVAL = 25 * 1000;
+
+/**
+ * Writes to a stream right away. SillyTavern compresses every response, and the compression middleware would
+ * hold small writes back until its buffer fills.
+ */
+function writeToStream(response: Response, chunk: string) {
+  response.write(chunk);
+  (response as Response & { flush?: () => void }).flush?.();
+}
+
+/**
+ * Turns the response into a Server-Sent Events stream of the user's events
+ */
+export function subscribeToEvents(handle: string, response: Response): void {
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable buffering in nginx
+    'X-Accel-Buffering': 'no',
+  });
+  writeToStream(response, ': connected\n\n');
+
+  let responses = subscribers.get(handle);
+  if (!responses) {
+    responses = new Set();
+    subscribers.set(handle, responses);
+  }
+  responses.add(response);
+
+  const keepAlive = setInterval(() => writeToStream(response, ': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+  response.on('close', () => {
+    clearInterval(keepAlive);
+    responses.delete(response);
+    if (responses.size === 0) {
+      subscribers.delete(handle);
+    }
+  });
+}
+
+/**
+ * Sends an event to every open stream of the user
+ */
+export function publishEvent(handle: string, type: McpEventType, data: Record<string, unknown>): void {
+  const responses = subscribers.get(handle);
+  if (!responses) {
+    return;
+  }
+
+  const payload = `event: ${type}\ndata: ${JSON.stringify({ ...data, at: Date.now() })}\n\n`;
+  for (const response of responses) {
+    writeToStream(response, payload);
+  }
+}
@@ -0,0 +1,192 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { redactSecrets } from './secrets';
+import { ToolPolicyAction } from './policies';
+import { UserDirectoryList } from './mcp';
+
+export const MCP_HISTORY_FILE = 'mcp_history.jsonl';
+// The log is rotated to mcp_history.1.jsonl, mcp_history.2.jsonl, ... once it reaches the size limit
+const MAX_HISTORY_SIZE = 5 * 1024 * 1024;
+const MAX_HISTORY_FILES = 5;
+
+const REDACTED = '********';
+// Arguments are never written to the log if a word of their name is one of these, e.g. "api_key" or "authToken"
+const SENSITIVE_WORD =
+  /^(pass|passwd|password|passphrase|secret|token|apikey|auth|authorization|cookie|credentials?|privatekey)$/;
+const MAX_ARGUMENT_LENGTH = 2000;
+
+/**
+ * Chat the tool was called from, as passed by the frontend
+ */
+export interface ToolCallContext {
+  chatId?: string;
+  characterId?: string;
+  characterName?: string;
+  groupId?: string;
+}
+
+const CONTEXT_FIELDS: (keyof ToolCallContext)[] = ['chatId', 'characterId', 'characterName', 'groupId'];
+
+export interface ToolCallHistoryEntry {
+  id: string; // Call id
+  at: number; // Start of the call
+  serverName: string;
+  toolName: string;
+  arguments: any; // Redacted
+  status: 'executed' | 'failed' | 'cancelled' | 'denied' | 'limited';
+  policy?: ToolPolicyAction; // Policy the call was allowed, asked or denied by
+  duration: number; // Milliseconds
+  resultSize?: number; // Bytes of the serialized result
+  errorCode?: number;
+  error?: string;
+  warnings?: string[];
+  context?: ToolCallContext;
+}
+
+export interface HistoryFilter {
+  serverName?: string;
+  toolName?: string;
+  status?: string;
+  chatId?: string;
+  characterId?: string;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Picks the known context fields from a request body, ignoring everything else
+ */
+export function parseToolCallContext(value: unknown): ToolCallContext | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const context: ToolCallContext = {};
+  for (const field of CONTEXT_FIELDS) {
+    const fieldValue = (value as any)[field];
+    if (typeof fieldValue === 'string' || typeof fieldValue === 'number') {
+      context[field] = String(fieldValue);
+    }
+  }
+  return Object.keys(context).length > 0 ? context : undefined;
+}
+
+/**
+ * Whether an argument name is or contains a sensitive word. Names are split into words at "_", "-", digits and
+ * camelCase, so "author" or "max_tokens" are kept while "x-api-key" is masked.
+ */
+function isSensitiveArgument(name: string): boolean {
+  const words = name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+  // Neighbours are joined too, for names that are written as two words like "api_key"
+  return words.some((word, i) => SENSITIVE_WORD.test(word) || SENSITIVE_WORD.test(word + (words[i + 1] ?? '')));
+}
+
+/**
+ * Copy of tool arguments that is safe to keep: sensitive and listed argument names are masked, secrets of running
+ * servers are redacted and long strings are truncated
+ */
+export function redactArguments(value: any, redactedNames: string[] = []): any {
+  if (typeof value === 'string') {
+    const redacted = redactSecrets(value);
+    return redacted.length > MAX_ARGUMENT_LENGTH
+      ? `${redacted.slice(0, MAX_ARGUMENT_LENGTH)}... (${redacted.length} characters)`
+      : redacted;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item, redactedNames));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSensitiveArgument(key) || redactedNames.includes(key) ? REDACTED : redactArguments(item, redactedNames),
+      ]),
+    );
+  }
+  return value;
+}
+
+function getHistoryFiles(directories: UserDirectoryList): string[] {
+  const files = [path.join(directories.root, MCP_HISTORY_FILE)];
+  for (let i = 1; i < MAX_HISTORY_FILES; i++) {
+    files.push(path.join(directories.root, MCP_HISTORY_FILE.replace(/\.jsonl$/, `.${i}.jsonl`)));
+  }
+  return files;
+}
+
+/**
+ * Moves every log file one place down, dropping the oldest
+ */
+function rotateHistory(directories: UserDirectoryList) {
+  const files = getHistoryFiles(directories);
+  fs.rmSync(files[files.length - 1], { force: true });
+  for (let i = files.length - 2; i >= 0; i--) {
+    if (fs.existsSync(files[i])) {
+      fs.renameSync(files[i], files[i + 1]);
+    }
+  }
+}
+
+/**
+ * Appends a tool call to the user's history. Failures are logged, they never fail the call itself.
+ */
+export function appendHistory(directories: UserDirectoryList, entry: ToolCallHistoryEntry): void {
+  try {
+    const filePath = path.join(directories.root, MCP_HISTORY_FILE);
+    if (fs.existsSync(filePath) && fs.statSync(filePath).size >= MAX_HISTORY_SIZE) {
+      rotateHistory(directories);
+    }
+    fs.appendFileSync(filePath, JSON.stringify(entry) + '\n', { encoding: 'utf-8', mode: 0o600 });
+  } catch (error) {
+    console.error('[MCP] Failed to write tool call history:', error);
+  }
+}
+
+function matchesFilter(entry: ToolCallHistoryEntry, filter: HistoryFilter): boolean {
+  return (
+    (filter.serverName === undefined || entry.serverName === filter.serverName) &&
+    (filter.toolName === undefined || entry.toolName === filter.toolName) &&
+    (filter.status === undefined || entry.status === filter.status) &&
+    (filter.chatId === undefined || entry.context?.chatId === filter.chatId) &&
+    (filter.characterId === undefined || entry.context?.characterId === filter.characterId) &&
+    (filter.since === undefined || entry.at >= filter.since) &&
+    (filter.until === undefined || entry.at <= filter.until)
+  );
+}
+
+/**
+ * Reads the user's history, newest first, including rotated files
+ */
+export function readHistory(
+  directories: UserDirectoryList,
+  filter: HistoryFilter,
+  offset: number,
+  limit: number,
+): { entries: ToolCallHistoryEntry[]; total: number } {
+  const matching: ToolCallHistoryEntry[] = [];
+  for (const filePath of getHistoryFiles(directories)) {
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!lines[i]) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(lines[i]);
+        if (matchesFilter(entry, filter)) {
+          matching.push(entry);
+        }
+      } catch {
+        // A line cut short by a crash, skip it
+      }
+    }
+  }
+  return { entries: matching.slice(offset, offset + limit), total: matching.length };
+}
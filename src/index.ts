@@ -1,5 +1,13 @@
 import { Router } from 'express';
-import { MCP_SETTINGS_FILE, mcpInit, readMcpSettings, Request } from './mcp';
+import {
+  ensureMcpSettingsFile,
+  MCP_SETTINGS_FILE,
+  mcpInit,
+  Request,
+  startAutoStartServers,
+  stopAllMcpServers,
+  unwatchAllMcpSettings,
+} from './mcp';
 import path from 'node:path';
 import { exec } from 'child_process';
 
@@ -7,10 +15,15 @@ const ID = 'mcp';
 
 async function init(router: Router): Promise<void> {
   mcpInit(router);
+  // Don't hold up SillyTavern's startup while servers connect
+  startAutoStartServers().catch((error) => {
+    console.error('[MCP] Error auto-starting servers:', error);
+  });
+
   // @ts-ignore
   router.post('/open-settings', (request: Request, response) => {
     // Make sure file is exist
-    readMcpSettings(request.user.directories);
+    ensureMcpSettingsFile(request.user.directories);
 
     // Open in explorer
     const platform = process.platform;
@@ -43,7 +56,10 @@ interface PluginInfo {
 
 export default {
   init,
-  exit: (): void => {},
+  exit: (): Promise<void> => {
+    unwatchAllMcpSettings();
+    return stopAllMcpServers();
+  },
   info: {
     id: ID,
     name: 'MCP Server',
@@ -0,0 +1,173 @@
+/**
+ * Syntax error of a JSON document, with the position of the problem
+ */
+export class JsonParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number,
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'JsonParseError';
+  }
+}
+
+/**
+ * Parses JSON with comments and trailing commas, as written by hand or by VS Code and Cursor.
+ * Comments and trailing commas are blanked out instead of removed, so error positions match the original text.
+ */
+export function parseJsonc(text: string): any {
+  const chars = text.split('');
+  let trailingComma = -1;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (char === '"') {
+      for (i++; i < chars.length && chars[i] !== '"' && chars[i] !== '\n'; i++) {
+        if (chars[i] === '\\') {
+          i++;
+        }
+      }
+      trailingComma = -1;
+    } else if (char === '/' && chars[i + 1] === '/') {
+      for (; i < chars.length && chars[i] !== '\n'; i++) {
+        chars[i] = ' ';
+      }
+    } else if (char === '/' && chars[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const last = end === -1 ? chars.length - 1 : end + 1;
+      for (; i <= last; i++) {
+        // Keep line breaks so line numbers still match
+        chars[i] = chars[i] === '\n' ? '\n' : ' ';
+      }
+      i--;
+    } else if (char === ',') {
+      trailingComma = i;
+    } else if (char === '}' || char === ']') {
+      if (trailingComma !== -1) {
+        chars[trailingComma] = ' ';
+      }
+      trailingComma = -1;
+    } else if (!/\s/.test(char)) {
+      trailingComma = -1;
+    }
+  }
+
+  const json = chars.join('');
+  try {
+    return JSON.parse(json);
+  } catch (error: any) {
+    // Some of Node's messages quote the document instead of giving a position, so the error is located here
+    const syntaxError = findSyntaxError(json) ?? {
+      message: error.message.replace(/,? ".*" is not valid JSON$/s, '').replace(/\s*(in JSON )?at position \d+.*$/, ''),
+      position: json.length,
+    };
+    const lines = text.slice(0, syntaxError.position).split('\n');
+    throw new JsonParseError(syntaxError.message, lines.length, lines[lines.length - 1].length + 1);
+  }
+}
+
+/**
+ * Scans a JSON document for its first syntax error
+ */
+function findSyntaxError(text: string): { message: string; position: number } | undefined {
+  let i = 0;
+  const fail = (message: string) => {
+    throw { message: i < text.length ? message : 'Unexpected end of input', position: i };
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) {
+      i++;
+    }
+  };
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    const result = pattern.exec(text);
+    if (result) {
+      i += result[0].length;
+    }
+    return !!result;
+  };
+
+  const scanString = () => {
+    const start = i;
+    for (i++; i < text.length && text[i] !== '"'; i++) {
+      if (text[i] === '\\') {
+        i++;
+        if (!match(/["\\/bfnrt]|u[0-9a-fA-F]{4}/y)) {
+          fail('Bad escaped character');
+        }
+        i--;
+      } else if (text.charCodeAt(i) < 0x20) {
+        fail('Bad control character in string literal');
+      }
+    }
+    if (i >= text.length) {
+      // Reported where the string starts, that's where the missing quote belongs to
+      i = start;
+      fail('Unterminated string');
+    }
+    i++;
+  };
+
+  const scanList = (close: string, scanItem: () => void, expected: string) => {
+    i++;
+    skipWhitespace();
+    if (text[i] === close) {
+      i++;
+      return;
+    }
+    for (;;) {
+      scanItem();
+      skipWhitespace();
+      if (text[i] === close) {
+        i++;
+        return;
+      }
+      if (text[i] !== ',') {
+        fail(expected);
+      }
+      i++;
+    }
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+    if (text[i] === '{') {
+      scanList(
+        '}',
+        () => {
+          skipWhitespace();
+          if (text[i] !== '"') {
+            fail('Expected double-quoted property name');
+          }
+          scanString();
+          skipWhitespace();
+          if (text[i] !== ':') {
+            fail("Expected ':' after property name");
+          }
+          i++;
+          scanValue();
+        },
+        "Expected ',' or '}' after property value",
+      );
+    } else if (text[i] === '[') {
+      scanList(']', scanValue, "Expected ',' or ']' after array element");
+    } else if (text[i] === '"') {
+      scanString();
+    } else if (!match(/-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?|true|false|null/y)) {
+      fail(`Unexpected token '${text[i]}'`);
+    }
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (i < text.length) {
+      fail('Unexpected non-whitespace character after JSON');
+    }
+  } catch (error: any) {
+    return error;
+  }
+  return undefined;
+}
@@ -0,0 +1,257 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { sync as writeFileAtomicSync } from 'write-file-atomic';
+import { McpError, ErrorCode } from './McpClient';
+import { UserDirectoryList } from './mcp';
+
+/**
+ * Limits of a tool, or of all tools of a server together under the "*" key
+ */
+export interface McpRateLimit {
+  perMinute?: number; // Calls refilled per minute
+  burst?: number; // Calls that may be made at once, defaults to perMinute
+  perDay?: number; // Calls per UTC day
+}
+
+export const ALL_TOOLS_KEY = '*';
+
+export const MCP_USAGE_FILE = 'mcp_usage.json';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyUsage {
+  date: string; // UTC date the counts belong to
+  calls: Record<string, Record<string, number>>; // Map of server names to calls per tool, "*" counts all tools
+}
+
+interface CallQueue {
+  running: number;
+  waiting: (() => void)[]; // Resumes a queued call
+}
+
+// Rate limit buckets, keyed by client key and tool name
+const buckets: Map<string, TokenBucket> = new Map();
+// Daily call counts of every user, keyed by their root directory and mirrored to their usage file
+const dailyUsage: Map<string, DailyUsage> = new Map();
+// Running and queued tool calls, keyed by client key
+const callQueues: Map<string, CallQueue> = new Map();
+
+function getBucketKey(clientKey: string, toolName: string) {
+  return `${clientKey}\0${toolName}`;
+}
+
+/**
+ * Refills a bucket for the time passed since it was last used
+ */
+function refillBucket(key: string, limit: McpRateLimit, now: number): TokenBucket {
+  const capacity = limit.burst ?? limit.perMinute!;
+  const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * limit.perMinute!) / 60000);
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+  return bucket;
+}
+
+function getDailyUsage(directories: UserDirectoryList): DailyUsage {
+  const date = new Date().toISOString().slice(0, 10);
+  let usage = dailyUsage.get(directories.root);
+  if (!usage) {
+    const filePath = path.join(directories.root, MCP_USAGE_FILE);
+    try {
+      usage = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : undefined;
+    } catch (error) {
+      console.warn(`[MCP] Ignoring unreadable ${MCP_USAGE_FILE}:`, error);
+    }
+  }
+  if (!usage || usage.date !== date || !usage.calls) {
+    usage = { date, calls: {} };
+  }
+  dailyUsage.set(directories.root, usage);
+  return usage;
+}
+
+function writeDailyUsage(directories: UserDirectoryList, usage: DailyUsage): void {
+  try {
+    writeFileAtomicSync(path.join(directories.root, MCP_USAGE_FILE), JSON.stringify(usage, null, 2), 'utf-8');
+  } catch (error) {
+    console.error(`[MCP] Failed to write ${MCP_USAGE_FILE}:`, error);
+  }
+}
+
+function getMillisecondsUntilTomorrow(now: number): number {
+  const tomorrow = new Date(now);
+  tomorrow.setUTCHours(24, 0, 0, 0);
+  return tomorrow.getTime() - now;
+}
+
+/**
+ * Counts a tool call against its rate limits and daily quotas, and those of all tools of the server.
+ * Throws `RateLimited` with the milliseconds to wait in `retryAfter` if any of them is used up, without counting.
+ */
+export function consumeRateLimit(
+  directories: UserDirectoryList,
+  clientKey: string,
+  serverName: string,
+  toolName: string,
+  rateLimits: Record<string, McpRateLimit> | undefined,
+): void {
+  const now = Date.now();
+  const usage = getDailyUsage(directories);
+  const serverUsage = usage.calls[serverName] ?? {};
+  const keys = [toolName, ALL_TOOLS_KEY].filter((key) => rateLimits?.[key]);
+
+  for (const key of keys) {
+    const limit = rateLimits![key];
+    const target = key === ALL_TOOLS_KEY ? `Tools of server "${serverName}"` : `Tool "${toolName}"`;
+    if (limit.perDay !== undefined && (serverUsage[key] ?? 0) >= limit.perDay) {
+      throw new McpError(ErrorCode.RateLimited, `${target} used up the daily quota of ${limit.perDay} calls`, {
+        retryAfter: getMillisecondsUntilTomorrow(now),
+      });
+    }
+    if (limit.perMinute !== undefined) {
+      const bucket = refillBucket(getBucketKey(clientKey, key), limit, now);
+      if (bucket.tokens < 1) {
+        throw new McpError(
+          ErrorCode.RateLimited,
+          `${target} exceeded the rate limit of ${limit.perMinute} per minute`,
+          {
+            retryAfter: Math.ceil(((1 - bucket.tokens) * 60000) / limit.perMinute),
+          },
+        );
+      }
+    }
+  }
+
+  let quotaChanged = false;
+  for (const key of keys) {
+    const limit = rateLimits![key];
+    if (limit.perMinute !== undefined) {
+      buckets.get(getBucketKey(clientKey, key))!.tokens -= 1;
+    }
+    if (limit.perDay !== undefined) {
+      serverUsage[key] = (serverUsage[key] ?? 0) + 1;
+      quotaChanged = true;
+    }
+  }
+
+  if (quotaChanged) {
+    usage.calls[serverName] = serverUsage;
+    writeDailyUsage(directories, usage);
+  }
+}
+
+/**
+ * Waits until fewer than `maxConcurrency` calls of the server run, in the order the calls arrived.
+ * Resolves with a function that frees the slot again.
+ */
+export function acquireCallSlot(
+  clientKey: string,
+  maxConcurrency: number | undefined,
+  signal: AbortSignal,
+): Promise<() => void> {
+  const queue = callQueues.get(clientKey) ?? { running: 0, waiting: [] };
+  callQueues.set(clientKey, queue);
+
+  const release = () => {
+    const next = queue.waiting.shift();
+    if (next) {
+      // The slot is handed over, so the number of running calls stays the same
+      next();
+    } else if (--queue.running === 0) {
+      callQueues.delete(clientKey);
+    }
+  };
+
+  if (maxConcurrency === undefined || queue.running < maxConcurrency) {
+    queue.running++;
+    return Promise.resolve(release);
+  }
+
+  return new Promise((resolve, reject) => {
+    const waiter = () => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(release);
+    };
+    const onAbort = () => {
+      queue.waiting.splice(queue.waiting.indexOf(waiter), 1);
+      reject(new McpError(ErrorCode.RequestCancelled, 'Tool call was cancelled while queued'));
+    };
+    signal.addEventListener('abort', onAbort);
+    queue.waiting.push(waiter);
+  });
+}
+
+/**
+ * Current queue depth, remaining rate limit and quota usage of a server
+ */
+export function getLimitUsage(
+  directories: UserDirectoryList,
+  clientKey: string,
+  serverName: string,
+  maxConcurrency: number | undefined,
+  rateLimits: Record<string, McpRateLimit> | undefined,
+) {
+  const queue = callQueues.get(clientKey);
+  const serverUsage = getDailyUsage(directories).calls[serverName] ?? {};
+  const now = Date.now();
+
+  return {
+    maxConcurrency,
+    running: queue?.running ?? 0,
+    queued: queue?.waiting.length ?? 0,
+    rateLimits: Object.fromEntries(
+      Object.entries(rateLimits || {}).map(([key, limit]) => [
+        key,
+        {
+          ...limit,
+          available:
+            limit.perMinute !== undefined
+              ? Math.floor(refillBucket(getBucketKey(clientKey, key), limit, now).tokens)
+              : undefined,
+          usedToday: serverUsage[key] ?? 0,
+        },
+      ]),
+    ),
+  };
+}
+
+/**
+ * Drops the rate limit buckets of a server, queued calls are left to finish
+ */
+export function forgetRateLimits(clientKey: string): void {
+  const prefix = getBucketKey(clientKey, '');
+  for (const key of buckets.keys()) {
+    if (key.startsWith(prefix)) {
+      buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Moves the rate limit buckets and daily quota counts of a renamed server to its new name
+ */
+export function renameRateLimits(
+  directories: UserDirectoryList,
+  clientKey: string,
+  newClientKey: string,
+  serverName: string,
+  newName: string,
+): void {
+  const prefix = getBucketKey(clientKey, '');
+  for (const [key, bucket] of Array.from(buckets.entries())) {
+    if (key.startsWith(prefix)) {
+      buckets.set(getBucketKey(newClientKey, key.slice(prefix.length)), bucket);
+      buckets.delete(key);
+    }
+  }
+
+  const usage = getDailyUsage(directories);
+  if (usage.calls[serverName]) {
+    usage.calls[newName] = usage.calls[serverName];
+    delete usage.calls[serverName];
+    writeDailyUsage(directories, usage);
+  }
+}
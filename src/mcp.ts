@@ -1,15 +1,84 @@
 import fs from 'node:fs';
 import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { randomUUID } from 'node:crypto';
 import { Router, Request as ExpressRequest, Response, json } from 'express';
 import { sync as writeFileAtomicSync } from 'write-file-atomic';
-import { McpClient, Implementation, McpError, ErrorCode } from './McpClient';
+import { Validator } from 'jsonschema';
+import { publishEvent, subscribeToEvents } from './events';
+import {
+  McpOAuthOptions,
+  createOAuthProvider,
+  startAuthorization,
+  completeAuthorization,
+  listPendingAuthorizations,
+  cancelPendingAuthorizations,
+  clearOAuthState,
+  renameOAuthState,
+  rememberCallbackUrl,
+} from './oauth';
+import {
+  McpSecretField,
+  encryptServerSecrets,
+  hasPlaintextSecrets,
+  resolveServerSecrets,
+  setServerSecret,
+  listSecretFields,
+  registerSecretValues,
+  forgetSecretValues,
+  redactSecrets,
+} from './secrets';
+import {
+  McpConfigFormat,
+  MCP_CONFIG_FORMATS,
+  parseMcpConfig,
+  convertImportedServer,
+  exportMcpConfig,
+} from './configFormats';
+import { validateServerEntry, validateSettings } from './schema';
+import { JsonParseError, parseJsonc } from './json';
+import { normalizeToolContent } from './content';
+import {
+  McpRateLimit,
+  acquireCallSlot,
+  consumeRateLimit,
+  forgetRateLimits,
+  getLimitUsage,
+  renameRateLimits,
+} from './limits';
+import { ServerToolPolicies, TOOL_POLICY_SCHEMA, resolveToolPolicy } from './policies';
+import {
+  HistoryFilter,
+  ToolCallHistoryEntry,
+  appendHistory,
+  parseToolCallContext,
+  readHistory,
+  redactArguments,
+} from './history';
+import { CURRENT_SETTINGS_VERSION, migrateSettings } from './migrations';
+import {
+  McpClient,
+  Implementation,
+  McpError,
+  ErrorCode,
+  ClientCapabilities,
+  Progress,
+  CloseInfo,
+  LoggingLevel,
+} from './McpClient';
 
 // Extend the Express Request type to include user property
 export interface Request extends ExpressRequest {
-  user: {
-    directories: UserDirectoryList;
+  user: McpUser;
+}
+
+export interface McpUser {
+  profile: {
+    handle: string;
     [key: string]: any;
   };
+  directories: UserDirectoryList;
+  [key: string]: any;
 }
 
 export interface UserDirectoryList {
@@ -20,66 +89,493 @@ export interface UserDirectoryList {
 export const jsonParser = json({ limit: '200mb' });
 
 // Define types
-interface McpServerEntry {
+export interface McpServerEntry {
   name: string;
-  command: string;
+  command?: string; // Required for stdio servers
   args: string[];
   env: Record<string, string>;
   type: string;
   url?: string;
+  headers?: Record<string, string>; // Extra HTTP headers, values may reference environment variables as ${NAME}
+  bearerToken?: string; // Sent as Authorization header, may reference environment variables as ${NAME}
+  roots?: McpServerRoots;
+  timeout?: number; // Request timeout in milliseconds
+  toolTimeouts?: Record<string, number>; // Map of tool names to their timeout in milliseconds
+  restart?: McpRestartPolicy;
+  autoStart?: boolean; // Start the server when SillyTavern starts
+  strictOutputSchema?: boolean; // Fail tool calls whose result doesn't match the output schema instead of warning
+  redactArguments?: string[]; // Tool arguments masked in the call history, on top of names like "password"
+  maxConcurrency?: number; // Tool calls running at once, further calls wait in order
+  rateLimits?: Record<string, McpRateLimit>; // Map of tool names to their limits, "*" limits all tools together
+  oauth?: McpOAuthOptions; // Client settings for servers that require authorization
+}
+
+interface McpRestartPolicy {
+  maxRestarts?: number; // 0 disables automatic restarts
+  initialDelay?: number; // Delay before the first restart in milliseconds, doubled on every attempt
+  maxDelay?: number; // Upper bound of the delay in milliseconds
+}
+
+interface McpServerRoots {
+  directories?: string[]; // Keys of the user's directory list, e.g. "characters" or "chats"
+  paths?: string[]; // Extra paths, relative paths are resolved from the user's root directory
 }
 
 interface McpServerDictionary {
+  version: number; // Schema version, see migrations.ts
   mcpServers: Record<string, McpServerEntry>;
   disabledTools: Record<string, string[]>; // Map of server names to their disabled tools
   disabledServers: string[]; // Array of disabled server names
   cachedTools: Record<string, any[]>; // Map of server names to their cached tool data
+  toolPolicies: Record<string, ServerToolPolicies>; // Map of server names to the policies of their tools
+}
+
+interface CachedSettings {
+  contents: string; // File contents the settings were read from, used to tell own writes from external edits
+  settings: McpServerDictionary;
+}
+
+type ServerState = 'running' | 'restarting' | 'crashed' | 'stopped';
+
+interface ServerStatus {
+  handle: string;
+  serverName: string;
+  state: ServerState;
+  restartCount: number;
+  startedAt?: number;
+  config?: McpServerEntry; // Config the server was last started with
+  lastError?: string;
+  lastExit?: {
+    code?: number | null;
+    signal?: string | null;
+    at: number;
+  };
+  restartTimer?: NodeJS.Timeout;
+}
+
+interface ToolListDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+interface ServerChanges {
+  tools?: ToolListDiff & {
+    at: number;
+    baseline: any[]; // Cached tools before the first unacknowledged change
+  };
+  resourcesChangedAt?: number;
+  promptsChangedAt?: number;
 }
 
-// Map to store MCP clients
+interface ServerLogEntry {
+  at: number;
+  level: LoggingLevel;
+  source: 'stderr' | 'server' | 'connection' | 'tool';
+  logger?: string;
+  message: string;
+}
+
+interface PendingSamplingRequest {
+  id: string;
+  serverName: string;
+  handle: string;
+  params: Record<string, unknown>;
+  createdAt: number;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface PendingElicitation {
+  id: string;
+  serverName: string;
+  handle: string;
+  message: string;
+  requestedSchema: Record<string, any>;
+  createdAt: number;
+  resolve: (result: ElicitationResult) => void;
+  timeout: NodeJS.Timeout;
+}
+
+interface PendingApproval {
+  id: string;
+  callId: string;
+  serverName: string;
+  toolName: string;
+  handle: string;
+  arguments: any;
+  reason: string; // Why the policy asks
+  createdAt: number;
+  settle: (error?: McpError) => void;
+}
+
+interface ElicitationResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, unknown>;
+}
+
+interface ActiveToolCall {
+  id: string;
+  serverName: string;
+  toolName: string;
+  handle: string;
+  startedAt: number;
+  progress?: Progress;
+  approvalId?: string; // Set while the call waits for the user's approval
+  abortController: AbortController;
+}
+
+/**
+ * Fulfils a `sampling/createMessage` request from a server. Resolves with a `CreateMessageResult`.
+ */
+export type SamplingHandler = (serverName: string, params: Record<string, unknown>, user: McpUser) => Promise<any>;
+
+// Map to store MCP clients, keyed by user handle and server name (see getClientKey)
 const mcpClients: Map<string, McpClient> = new Map();
 
+// Supervisor state of every server that was started at least once, keyed like mcpClients
+const serverStatuses: Map<string, ServerStatus> = new Map();
+const DEFAULT_MAX_RESTARTS = 5;
+const DEFAULT_RESTART_DELAY = 1000;
+const DEFAULT_MAX_RESTART_DELAY = 30 * 1000;
+// A server that stayed up this long starts over with a fresh restart budget
+const STABLE_RUN_TIME = 60 * 1000;
+
+// Recent log entries of every server, keyed like mcpClients. Kept after a server stops to debug crashes.
+const serverLogs: Map<string, ServerLogEntry[]> = new Map();
+const MAX_LOG_ENTRIES = 1000;
+// Ordered from least to most severe, as defined by the MCP spec
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+// List changes announced by servers that the frontend did not acknowledge yet, keyed like mcpClients
+const serverChanges: Map<string, ServerChanges> = new Map();
+
+// Sampling requests waiting for the frontend to answer them
+const pendingSamplingRequests: Map<string, PendingSamplingRequest> = new Map();
+const SAMPLING_REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+// Tool calls in flight, keyed by call id
+const activeToolCalls: Map<string, ActiveToolCall> = new Map();
+// Page sizes of the tool call history
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 500;
+
+// Elicitations waiting for the user who started the server to answer them
+const pendingElicitations: Map<string, PendingElicitation> = new Map();
+const ELICITATION_TIMEOUT = 10 * 60 * 1000;
+
+// Tool calls waiting for the user to approve them, keyed by approval id
+const pendingApprovals: Map<string, PendingApproval> = new Map();
+const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
 export const MCP_SETTINGS_FILE = 'mcp_settings.json';
 
+// Parsed settings of users whose settings file is watched, keyed by their root directory
+const settingsCache: Map<string, CachedSettings> = new Map();
+const settingsWatchers: Map<string, fs.FSWatcher> = new Map();
+// Editors save in several steps, wait for them to finish
+const SETTINGS_CHANGE_DELAY = 200;
+
+// Subset of SillyTavern's user directory layout, used for users that were not part of a request
+const USER_DIRECTORY_TEMPLATE: Record<string, string> = {
+  root: '',
+  characters: 'characters',
+  chats: 'chats',
+  groups: 'groups',
+  groupChats: 'group chats',
+  worlds: 'worlds',
+  avatars: 'User Avatars',
+  backgrounds: 'backgrounds',
+  user: 'user',
+  userImages: 'user/images',
+  files: 'user/files',
+  assets: 'assets',
+  quickreplies: 'QuickReplies',
+  vectors: 'vectors',
+  backups: 'backups',
+};
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000;
+
+// Fields that are only read when a server is started, changing them requires a restart
+const LAUNCH_CONFIG_FIELDS: (keyof McpServerEntry)[] = [
+  'type',
+  'command',
+  'args',
+  'env',
+  'url',
+  'headers',
+  'bearerToken',
+  'oauth',
+  'timeout',
+];
+
 /**
  * Reads MCP settings from the settings file
  */
 export function readMcpSettings(directories: UserDirectoryList): McpServerDictionary {
+  const cached = settingsCache.get(directories.root);
+  if (cached) {
+    // Callers change the settings before writing them
+    return structuredClone(cached.settings);
+  }
+
   const filePath = path.join(directories.root, MCP_SETTINGS_FILE);
   if (!fs.existsSync(filePath)) {
-    const defaultSettings: McpServerDictionary = {
-      mcpServers: {},
-      disabledTools: {},
-      disabledServers: [],
-      cachedTools: {},
-    };
-    writeFileAtomicSync(filePath, JSON.stringify(defaultSettings, null, 4), 'utf-8');
+    const defaultSettings = createDefaultMcpSettings();
+    writeMcpSettings(directories, defaultSettings);
     return defaultSettings;
   }
 
   const fileContents = fs.readFileSync(filePath, 'utf-8');
-  const settings = JSON.parse(fileContents) as McpServerDictionary;
+  const settings = parseMcpSettings(fileContents);
+  const previousVersion = migrateSettings(settings);
+
+  // Problems of single servers are reported when they are started, or by /settings/validate
+  const { errors } = validateSettings(settings);
+  if (errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidRequest, `${MCP_SETTINGS_FILE} is invalid: ${errors.join('; ')}`, {
+      errors,
+    });
+  }
+
+  if (previousVersion < settings.version) {
+    console.log(`[MCP] Migrating settings from version ${previousVersion} to ${settings.version}`);
+    backupMcpSettings(directories, fileContents, previousVersion);
+    writeMcpSettings(directories, settings);
+  } else if (Object.values(settings.mcpServers).some(hasPlaintextSecrets)) {
+    // Secrets that were added by hand are encrypted right away
+    writeMcpSettings(directories, settings);
+  } else {
+    cacheMcpSettings(directories, fileContents, settings);
+  }
+
+  return settings;
+}
+
+function createDefaultMcpSettings(): McpServerDictionary {
+  return {
+    version: CURRENT_SETTINGS_VERSION,
+    mcpServers: {},
+    disabledTools: {},
+    disabledServers: [],
+    cachedTools: {},
+    toolPolicies: {},
+  };
+}
 
-  // Migration: Add missing fields if they don't exist
-  if (!settings.disabledTools) {
-    settings.disabledTools = {};
+/**
+ * Creates the settings file with the defaults if it doesn't exist. An existing file is left as it is, even if it
+ * is invalid, so that it can still be opened and fixed.
+ */
+export function ensureMcpSettingsFile(directories: UserDirectoryList): void {
+  if (!fs.existsSync(path.join(directories.root, MCP_SETTINGS_FILE))) {
+    writeMcpSettings(directories, createDefaultMcpSettings());
   }
-  if (!settings.disabledServers) {
-    settings.disabledServers = [];
+}
+
+/**
+ * Caches the settings while the file is watched, otherwise there is nothing that would invalidate them
+ */
+function cacheMcpSettings(directories: UserDirectoryList, contents: string, settings: McpServerDictionary) {
+  if (settingsWatchers.has(directories.root)) {
+    settingsCache.set(directories.root, { contents, settings: structuredClone(settings) });
   }
-  if (!settings.cachedTools) {
-    settings.cachedTools = {};
+}
+
+/**
+ * Parses the settings file, tolerating comments and trailing commas of hand-edited files
+ */
+function parseMcpSettings(fileContents: string): McpServerDictionary {
+  let settings;
+  try {
+    settings = parseJsonc(fileContents);
+  } catch (error) {
+    if (error instanceof JsonParseError) {
+      throw new McpError(ErrorCode.ParseError, `${MCP_SETTINGS_FILE} is not valid JSON: ${error.message}`, {
+        line: error.line,
+        column: error.column,
+      });
+    }
+    throw error;
   }
 
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new McpError(ErrorCode.InvalidRequest, `${MCP_SETTINGS_FILE} must contain a JSON object`);
+  }
   return settings;
 }
 
+/**
+ * Keeps a copy of the settings file before it is migrated. Secrets are encrypted like in the settings file,
+ * comments of hand-edited files are not kept.
+ */
+function backupMcpSettings(directories: UserDirectoryList, fileContents: string, version: number) {
+  const backup = parseMcpSettings(fileContents);
+  if (backup.mcpServers && typeof backup.mcpServers === 'object') {
+    backup.mcpServers = Object.fromEntries(
+      Object.entries(backup.mcpServers).map(([name, config]) => [
+        name,
+        config && typeof config === 'object' ? encryptServerSecrets(directories, config) : config,
+      ]),
+    );
+  }
+  const backupPath = path.join(directories.root, `mcp_settings.v${version}.${Date.now()}.bak.json`);
+  writeFileAtomicSync(backupPath, JSON.stringify(backup, null, 4), { encoding: 'utf-8', mode: 0o600 });
+  console.log(`[MCP] Backed up settings of version ${version} to ${backupPath}`);
+}
+
 /**
  * Writes MCP settings to the settings file
  */
 export function writeMcpSettings(directories: UserDirectoryList, settings: McpServerDictionary): void {
+  // Secrets are never written in plain text, the passed settings are updated to match the file
+  settings.mcpServers = Object.fromEntries(
+    Object.entries(settings.mcpServers || {}).map(([name, config]) => [
+      name,
+      encryptServerSecrets(directories, config),
+    ]),
+  );
   const filePath = path.join(directories.root, MCP_SETTINGS_FILE);
-  writeFileAtomicSync(filePath, JSON.stringify(settings, null, 4), 'utf-8');
+  const contents = JSON.stringify(settings, null, 4);
+  writeFileAtomicSync(filePath, contents, 'utf-8');
+  cacheMcpSettings(directories, contents, settings);
+}
+
+/**
+ * Watches the user's settings file, applying edits made outside of the plugin
+ */
+export function watchMcpSettings(user: McpUser): void {
+  const { root } = user.directories;
+  if (settingsWatchers.has(root) || !fs.existsSync(root)) {
+    return;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  // Kept so that servers are compared against the last readable settings when an edit was invalid in between
+  let lastValid: McpServerDictionary | undefined;
+  // Watch the directory, atomic writes replace the file and would end a watcher on the file itself
+  const watcher = fs.watch(root, (_event, filename) => {
+    if (filename && filename !== MCP_SETTINGS_FILE) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      applyMcpSettingsChange(user, lastValid)
+        .then((settings) => {
+          lastValid = settings ?? lastValid;
+        })
+        .catch((error) => {
+          console.error(`[MCP] Failed to apply settings of user "${user.profile.handle}":`, error);
+        });
+    }, SETTINGS_CHANGE_DELAY);
+  });
+  watcher.on('error', (error) => {
+    console.error(`[MCP] Stopped watching settings of user "${user.profile.handle}":`, error);
+    unwatchMcpSettings(root);
+  });
+  watcher.unref();
+  settingsWatchers.set(root, watcher);
+}
+
+function unwatchMcpSettings(root: string) {
+  settingsWatchers.get(root)?.close();
+  settingsWatchers.delete(root);
+  settingsCache.delete(root);
+}
+
+/**
+ * Stops watching the settings of every user
+ */
+export function unwatchAllMcpSettings(): void {
+  for (const root of Array.from(settingsWatchers.keys())) {
+    unwatchMcpSettings(root);
+  }
+}
+
+/**
+ * Reloads settings that were edited outside of the plugin: stops running servers that were removed or disabled,
+ * restarts those whose launch config changed and tells the frontend to refresh. Returns the settings
+ * later changes should be compared against.
+ */
+async function applyMcpSettingsChange(
+  user: McpUser,
+  lastValid: McpServerDictionary | undefined,
+): Promise<McpServerDictionary | undefined> {
+  const { root } = user.directories;
+  const { handle } = user.profile;
+  const cached = settingsCache.get(root);
+  const previous = cached?.settings ?? lastValid;
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(path.join(root, MCP_SETTINGS_FILE), 'utf-8');
+  } catch {
+    // Deleted, the defaults are written on the next read
+    settingsCache.delete(root);
+    return previous;
+  }
+  if (cached?.contents === contents) {
+    return previous;
+  }
+
+  settingsCache.delete(root);
+  let settings: McpServerDictionary;
+  try {
+    settings = readMcpSettings(user.directories);
+  } catch (error: any) {
+    // Running servers keep their config until the file is fixed
+    console.error(`[MCP] Settings of user "${handle}" were edited but can't be read:`, error.message);
+    publishEvent(handle, 'settings.invalid', { error: error.message, data: error.data });
+    return previous;
+  }
+
+  console.log(`[MCP] Settings of user "${handle}" were edited, applying changes`);
+  const previousServers = previous?.mcpServers || {};
+  const added = Object.keys(settings.mcpServers).filter((name) => !previousServers[name]);
+  const removed = Object.keys(previousServers).filter((name) => !settings.mcpServers[name]);
+  const changed = Object.keys(settings.mcpServers).filter(
+    (name) =>
+      previousServers[name] && JSON.stringify(previousServers[name]) !== JSON.stringify(settings.mcpServers[name]),
+  );
+  const stopped: string[] = [];
+  const restarted: string[] = [];
+
+  for (const name of [...removed, ...settings.disabledServers]) {
+    const key = getClientKey(handle, name);
+    if (mcpClients.has(key) || serverStatuses.get(key)?.state === 'restarting') {
+      await stopMcpServer(handle, name);
+      stopped.push(name);
+    }
+  }
+  for (const name of removed) {
+    forgetServerState(handle, name);
+  }
+
+  for (const name of changed) {
+    const client = mcpClients.get(getClientKey(handle, name));
+    if (!client) {
+      continue;
+    }
+
+    const config = settings.mcpServers[name];
+    if (hasLaunchConfigChanged(user.directories, name, previousServers[name], config)) {
+      try {
+        await stopMcpServer(handle, name);
+        await startMcpServer(name, config, user);
+        restarted.push(name);
+      } catch (error) {
+        console.error(`[MCP] Failed to restart server "${name}" after settings were edited:`, error);
+      }
+    } else if (JSON.stringify(previousServers[name].roots) !== JSON.stringify(config.roots)) {
+      client.notifyRootsListChanged().catch((error) => {
+        console.error(`[MCP] Failed to notify server "${name}" about changed roots:`, error);
+      });
+    }
+  }
+
+  publishEvent(handle, 'settings.changed', { added, removed, changed, stopped, restarted });
+  return settings;
 }
 
 /**
@@ -93,311 +589,2085 @@ function createClientInfo(serverName: string): Implementation {
 }
 
 /**
- * Starts an MCP server process and connects to it using JSON-RPC
+ * Running servers belong to the user who started them, so equally named servers of different users don't collide
  */
-async function startMcpServer(serverName: string, config: McpServerEntry) {
-  if (mcpClients.has(serverName)) {
-    console.warn(`[MCP] Server "${serverName}" is already running`);
-    return;
-  }
+function getClientKey(handle: string, serverName: string): string {
+  return `${handle}/${serverName}`;
+}
 
-  const transportType = config.type || 'stdio';
+/**
+ * Gets the running client of a server owned by the requesting user
+ */
+function getMcpClient(request: Request, serverName: string): McpClient | undefined {
+  return mcpClients.get(getClientKey(request.user.profile.handle, serverName));
+}
 
-  if (transportType === 'stdio') {
-    const env = { ...process.env, ...config.env } as Record<string, string>;
-    let command = config.command;
-    let args = config.args || [];
+/**
+ * Capabilities we advertise to every server
+ */
+function createClientCapabilities(): ClientCapabilities {
+  return {
+    tools: { listChanged: true },
+    sampling: {},
+    elicitation: {},
+    roots: { listChanged: true },
+  };
+}
 
-    // Windows-specific fix: Wrap the command in cmd /C to ensure proper path resolution
-    if (process.platform === 'win32' && !command.toLowerCase().includes('cmd')) {
-      const originalCommand = command;
-      const originalArgs = [...args];
-      command = 'cmd';
-      args = ['/C', originalCommand, ...originalArgs];
-      console.log(`[MCP] Windows detected, wrapping command: cmd /C ${originalCommand} ${originalArgs.join(' ')}`);
-    }
+/**
+ * Parks a sampling request until the frontend answers it through the `/sampling` routes
+ */
+function queueSamplingRequest(serverName: string, params: Record<string, unknown>, user: McpUser): Promise<any> {
+  const { handle } = user.profile;
+
+  return new Promise((resolve, reject) => {
+    const id = randomUUID();
+    // Let other open tabs know the request is gone, however it ends
+    const resolveRequest = (result: any) => {
+      publishEvent(handle, 'sampling.resolved', { id, serverName });
+      resolve(result);
+    };
+    const rejectRequest = (error: Error) => {
+      publishEvent(handle, 'sampling.resolved', { id, serverName });
+      reject(error);
+    };
+    const timeout = setTimeout(() => {
+      pendingSamplingRequests.delete(id);
+      rejectRequest(new McpError(ErrorCode.RequestTimeout, 'Sampling request was not answered in time'));
+    }, SAMPLING_REQUEST_TIMEOUT);
+
+    pendingSamplingRequests.set(id, {
+      id,
+      serverName,
+      handle,
+      params,
+      createdAt: Date.now(),
+      resolve: resolveRequest,
+      reject: rejectRequest,
+      timeout,
+    });
+    console.log(`[MCP] Server "${serverName}" requested sampling (${id})`);
+    publishEvent(handle, 'sampling.requested', { id, serverName, params });
+  });
+}
 
-    const client = new McpClient(
-      {
-        command,
-        args,
-        env,
-      },
-      createClientInfo(serverName),
-      {
-        tools: { listChanged: true },
-      },
-    );
+let samplingHandler: SamplingHandler = queueSamplingRequest;
 
-    try {
-      await client.connect();
-      mcpClients.set(serverName, client);
-      console.log(`[MCP] Connected to server "${serverName}" using JSON-RPC with stdio transport`);
-    } catch (error: any) {
-      throw new McpError(ErrorCode.ConnectionClosed, `Failed to connect to server: ${error.message}`);
-    }
-  } else if (transportType === 'streamableHttp' || transportType === 'sse') {
-    if (!config.url) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        `Server "${serverName}" requires a URL for ${transportType} transport`,
-      );
-    }
-    const client = new McpClient(
-      {
-        url: config.url,
-        env: config.env || {},
-        transport: transportType,
-      },
-      createClientInfo(serverName),
-      {
-        tools: { listChanged: true },
-      },
-    );
-    try {
-      await client.connect();
-      mcpClients.set(serverName, client);
-      console.log(`[MCP] Connected to server "${serverName}" using JSON-RPC with ${transportType} transport`);
-    } catch (error: any) {
-      throw new McpError(ErrorCode.ConnectionClosed, `Failed to connect to server: ${error.message}`);
-    }
-  } else {
-    throw new McpError(ErrorCode.InvalidRequest, `Unsupported transport type: ${transportType}`);
+/**
+ * Replaces the handler used for `sampling/createMessage` requests
+ */
+export function setSamplingHandler(handler: SamplingHandler): void {
+  samplingHandler = handler;
+}
+
+/**
+ * Rejects sampling requests of a server that is going away
+ */
+function rejectPendingSamplingRequests(handle: string, serverName: string, reason: string) {
+  for (const [id, pending] of pendingSamplingRequests) {
+    if (pending.handle !== handle || pending.serverName !== serverName) continue;
+    clearTimeout(pending.timeout);
+    pendingSamplingRequests.delete(id);
+    pending.reject(new McpError(ErrorCode.ConnectionClosed, reason));
   }
 }
 
 /**
- * Reloads tool cache for a specific server
+ * Parks an elicitation until the user answers it through the `/elicitations` routes.
+ * Unanswered elicitations are cancelled once they expire.
  */
-async function reloadToolCache(
+function queueElicitation(
   serverName: string,
-  settings: McpServerDictionary,
-  directories: UserDirectoryList,
-): Promise<{ tools: any[]; error?: any }> {
-  const wasRunning = mcpClients.has(serverName);
+  user: McpUser,
+  params: Record<string, unknown>,
+): Promise<ElicitationResult> {
+  if (typeof params.message !== 'string' || !params.requestedSchema || typeof params.requestedSchema !== 'object') {
+    throw new McpError(ErrorCode.InvalidParams, 'Elicitation requires a message and a requestedSchema');
+  }
 
-  try {
-    if (!mcpClients.has(serverName)) {
-      // Try to start server temporarily
-      await startMcpServer(serverName, settings.mcpServers[serverName]);
-    }
+  const { handle } = user.profile;
 
-    const client = mcpClients.get(serverName);
-    console.log(`[MCP] Reloading tool cache from server "${serverName}"`);
+  return new Promise((resolve) => {
+    const id = randomUUID();
+    const settle = (result: ElicitationResult) => {
+      publishEvent(handle, 'elicitation.resolved', { id, serverName, action: result.action });
+      resolve(result);
+    };
+    const timeout = setTimeout(() => {
+      pendingElicitations.delete(id);
+      settle({ action: 'cancel' });
+    }, ELICITATION_TIMEOUT);
+
+    pendingElicitations.set(id, {
+      id,
+      serverName,
+      handle,
+      message: params.message as string,
+      requestedSchema: params.requestedSchema as Record<string, any>,
+      createdAt: Date.now(),
+      resolve: settle,
+      timeout,
+    });
+    console.log(`[MCP] Server "${serverName}" requested user input (${id})`);
+    publishEvent(handle, 'elicitation.requested', {
+      id,
+      serverName,
+      message: params.message,
+      requestedSchema: params.requestedSchema,
+    });
+  });
+}
 
-    const tools = await client?.listTools();
+/**
+ * Cancels elicitations of a server that is going away
+ */
+function cancelPendingElicitations(handle: string, serverName: string) {
+  for (const [id, pending] of pendingElicitations) {
+    if (pending.handle !== handle || pending.serverName !== serverName) continue;
+    clearTimeout(pending.timeout);
+    pendingElicitations.delete(id);
+    pending.resolve({ action: 'cancel' });
+  }
+}
 
-    // Cache tools
-    settings.cachedTools[serverName] = tools?.tools || [];
-    writeMcpSettings(directories, settings);
+/**
+ * Parks a tool call until the user approves or rejects it through the `/approvals` routes.
+ * Calls that are not answered in time are rejected.
+ */
+function queueApproval(call: ActiveToolCall, args: any, reason: string): Promise<void> {
+  const { id: callId, handle, serverName, toolName } = call;
+
+  return new Promise((resolve, reject) => {
+    const id = randomUUID();
+    const settle = (error?: McpError) => {
+      clearTimeout(timeout);
+      call.abortController.signal.removeEventListener('abort', onAbort);
+      pendingApprovals.delete(id);
+      call.approvalId = undefined;
+      publishEvent(handle, 'approval.resolved', { id, callId, serverName, toolName, approved: !error });
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onAbort = () =>
+      settle(new McpError(ErrorCode.RequestCancelled, `Tool "${toolName}" was cancelled while awaiting approval`));
+    const timeout = setTimeout(
+      () => settle(new McpError(ErrorCode.ToolCallDenied, `Approval of tool "${toolName}" expired`)),
+      APPROVAL_TIMEOUT,
+    );
 
-    if (!wasRunning) {
-      // Stop the server if we started it temporarily
-      await stopMcpServer(serverName);
-    }
+    call.abortController.signal.addEventListener('abort', onAbort);
+    call.approvalId = id;
+    pendingApprovals.set(id, {
+      id,
+      callId,
+      serverName,
+      toolName,
+      handle,
+      arguments: args,
+      reason,
+      createdAt: Date.now(),
+      settle,
+    });
+    console.log(`[MCP] Tool "${toolName}" on server "${serverName}" awaits approval (${id})`);
+    publishEvent(handle, 'approval.requested', { id, callId, serverName, toolName, arguments: args, reason });
+  });
+}
 
-    return { tools: tools?.tools || [] };
-  } catch (error: any) {
-    try {
-      if (!wasRunning && mcpClients.has(serverName)) {
-        // Stop the server if we started it temporarily
-        await stopMcpServer(serverName);
-      }
-    } catch (error) {
-      // Ignore error during cleanup
+/**
+ * Rejects approvals of a server that is going away
+ */
+function cancelPendingApprovals(handle: string, serverName: string) {
+  for (const pending of pendingApprovals.values()) {
+    if (pending.handle !== handle || pending.serverName !== serverName) continue;
+    pending.settle(new McpError(ErrorCode.ConnectionClosed, `Server "${serverName}" stopped`));
+  }
+}
+
+/**
+ * Resolves the roots a server may see into `file://` URIs
+ */
+function resolveRoots(serverName: string, roots: McpServerRoots | undefined, user: McpUser) {
+  const result: { uri: string; name: string }[] = [];
+
+  for (const key of roots?.directories || []) {
+    const directory = user.directories[key];
+    if (!directory) {
+      console.warn(`[MCP] Unknown user directory "${key}" in roots of server "${serverName}"`);
+      continue;
     }
+    result.push({ uri: pathToFileURL(path.resolve(directory)).href, name: key });
+  }
 
-    console.error('[MCP] Error reloading tool cache:', error);
-    return { error, tools: [] };
+  for (const rootPath of roots?.paths || []) {
+    const resolved = path.resolve(user.directories.root, rootPath);
+    result.push({ uri: pathToFileURL(resolved).href, name: path.basename(resolved) });
   }
+
+  return result;
 }
 
 /**
- * Stops an MCP server process
+ * Registers handlers for requests the server may send to us
  */
-async function stopMcpServer(serverName: string) {
-  if (!mcpClients.has(serverName)) {
-    console.warn(`[MCP] Server "${serverName}" is not running`);
-    return;
+function registerRequestHandlers(serverName: string, client: McpClient, user: McpUser) {
+  client.setRequestHandler('sampling/createMessage', (params) => samplingHandler(serverName, params, user));
+  client.setRequestHandler('elicitation/create', async (params) => queueElicitation(serverName, user, params));
+  client.setRequestHandler('roots/list', async () => {
+    // Read the latest config so edits apply without a restart
+    const config = readMcpSettings(user.directories).mcpServers[serverName];
+    return { roots: resolveRoots(serverName, config?.roots, user) };
+  });
+}
+
+/**
+ * Appends an entry to a server's log, dropping the oldest entries once the buffer is full
+ */
+function appendServerLog(handle: string, serverName: string, entry: Omit<ServerLogEntry, 'at'>) {
+  const key = getClientKey(handle, serverName);
+  let entries = serverLogs.get(key);
+  if (!entries) {
+    entries = [];
+    serverLogs.set(key, entries);
   }
 
-  const client = mcpClients.get(serverName);
-  await client?.close();
-  mcpClients.delete(serverName);
-  console.log(`[MCP] Disconnected from server "${serverName}"`);
+  const logEntry = { at: Date.now(), ...entry, message: redactSecrets(entry.message) };
+  entries.push(logEntry);
+  if (entries.length > MAX_LOG_ENTRIES) {
+    entries.splice(0, entries.length - MAX_LOG_ENTRIES);
+  }
+  publishEvent(handle, 'log', { serverName, ...logEntry });
 }
 
-export async function mcpInit(router: Router): Promise<void> {
-  // Get all MCP servers
-  // @ts-ignore
-  router.get('/servers', (request: Request, response: Response) => {
-    try {
-      const settings = readMcpSettings(request.user.directories);
-      const servers = Object.entries(settings.mcpServers || {}).map(([name, config]) => {
-        const client = mcpClients.get(name);
-        return {
+/**
+ * Captures stderr output and log notifications of a server
+ */
+function captureServerLogs(serverName: string, client: McpClient, user: McpUser) {
+  const { handle } = user.profile;
+
+  client.on('stderr', (line) => {
+    console.log(`[MCP Server] [${serverName}] ${redactSecrets(line)}`);
+    appendServerLog(handle, serverName, { level: 'info', source: 'stderr', message: line });
+  });
+  client.on('log', ({ level, logger, data }) => {
+    const message = typeof data === 'string' ? data : JSON.stringify(data);
+    appendServerLog(handle, serverName, {
+      level: LOG_LEVELS.includes(level) ? level : 'info',
+      source: 'server',
+      logger,
+      message,
+    });
+  });
+}
+
+/**
+ * Keeps cached tools fresh and records list changes for the frontend
+ */
+function registerNotificationHandlers(serverName: string, client: McpClient, user: McpUser) {
+  const key = getClientKey(user.profile.handle, serverName);
+  const getChanges = () => {
+    let changes = serverChanges.get(key);
+    if (!changes) {
+      changes = {};
+      serverChanges.set(key, changes);
+    }
+    return changes;
+  };
+
+  client.on('toolsListChanged', async () => {
+    // A client that was replaced or stopped must not start the server again to reload its tools
+    if (mcpClients.get(key) !== client) {
+      return;
+    }
+    console.log(`[MCP] Tool list of server "${serverName}" changed, reloading tool cache`);
+    try {
+      const settings = readMcpSettings(user.directories);
+      const previousTools = settings.cachedTools[serverName] || [];
+      const { tools, error } = await reloadToolCache(serverName, settings, user);
+      if (error) {
+        return;
+      }
+
+      const changes = getChanges();
+      const baseline = changes.tools?.baseline || previousTools;
+      const diff = diffTools(baseline, tools);
+      console.log(
+        `[MCP] Tools of server "${serverName}" changed: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`,
+      );
+      changes.tools = { ...diff, at: Date.now(), baseline };
+      publishEvent(user.profile.handle, 'tools.changed', { serverName, ...diff });
+    } catch (error: any) {
+      // Emitters don't await listeners, an error here would be an unhandled rejection
+      console.error(`[MCP] Failed to reload tool cache of server "${serverName}":`, error);
+      appendServerLog(user.profile.handle, serverName, {
+        level: 'error',
+        source: 'connection',
+        message: `Failed to reload tool cache after the tool list changed: ${error?.message || error}`,
+      });
+    }
+  });
+  client.on('resourcesListChanged', () => {
+    getChanges().resourcesChangedAt = Date.now();
+    publishEvent(user.profile.handle, 'resources.changed', { serverName });
+  });
+  client.on('resourceUpdated', (uri) => {
+    publishEvent(user.profile.handle, 'resource.updated', { serverName, uri });
+  });
+  client.on('promptsListChanged', () => {
+    getChanges().promptsChangedAt = Date.now();
+    publishEvent(user.profile.handle, 'prompts.changed', { serverName });
+  });
+}
+
+/**
+ * Compares two tool lists by name and definition
+ */
+function diffTools(previous: any[], next: any[]): ToolListDiff {
+  const previousByName = new Map(previous.map((tool) => [tool.name, tool]));
+  const nextByName = new Map(next.map((tool) => [tool.name, tool]));
+
+  return {
+    added: next.filter((tool) => !previousByName.has(tool.name)).map((tool) => tool.name),
+    removed: previous.filter((tool) => !nextByName.has(tool.name)).map((tool) => tool.name),
+    changed: next
+      .filter(
+        (tool) =>
+          previousByName.has(tool.name) && JSON.stringify(previousByName.get(tool.name)) !== JSON.stringify(tool),
+      )
+      .map((tool) => tool.name),
+  };
+}
+
+/**
+ * Public view of unacknowledged list changes
+ */
+function serializeServerChanges(handle: string, serverName: string) {
+  const changes = serverChanges.get(getClientKey(handle, serverName));
+  if (!changes) {
+    return undefined;
+  }
+
+  const { baseline, ...tools } = changes.tools || {};
+  return {
+    tools: changes.tools ? tools : undefined,
+    resourcesChangedAt: changes.resourcesChangedAt,
+    promptsChangedAt: changes.promptsChangedAt,
+  };
+}
+
+// ${NAME} reference to an environment variable
+const ENV_VARIABLE_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Replaces ${NAME} references with variables from the given env, falling back to the environment of SillyTavern
+ */
+function substituteEnvVariables(serverName: string, value: string, env: Record<string, string> = {}): string {
+  return value.replace(ENV_VARIABLE_REFERENCE, (_match, variable: string) => {
+    const resolved = env[variable] ?? process.env[variable];
+    if (resolved === undefined) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Environment variable "${variable}" used by server "${serverName}" is not set`,
+      );
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Resolves the configured headers and bearer token of an HTTP/SSE server
+ */
+function resolveHttpHeaders(serverName: string, config: McpServerEntry): Record<string, string> {
+  const headers = Object.fromEntries(
+    Object.entries(config.headers || {}).map(([header, value]) => [
+      header,
+      substituteEnvVariables(serverName, value, config.env),
+    ]),
+  );
+  if (config.bearerToken) {
+    headers['Authorization'] = `Bearer ${substituteEnvVariables(serverName, config.bearerToken, config.env)}`;
+  }
+  return headers;
+}
+
+/**
+ * Starts an MCP server process and connects to it using JSON-RPC
+ */
+async function startMcpServer(serverName: string, config: McpServerEntry, user: McpUser) {
+  const key = getClientKey(user.profile.handle, serverName);
+  if (mcpClients.has(key)) {
+    console.warn(`[MCP] Server "${serverName}" is already running`);
+    return;
+  }
+
+  const errors = validateServerEntry(config);
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Invalid configuration of server "${serverName}": ${errors.join('; ')}`,
+      {
+        errors,
+      },
+    );
+  }
+
+  // Secrets are only resolved for the lifetime of the client
+  config = resolveServerSecrets(user.directories, serverName, config);
+
+  const transportType = config.type || 'stdio';
+
+  if (transportType === 'stdio') {
+    // Unlike headers, env values may legitimately contain ${...}, so unset variables are left as they are
+    const serverEnv = Object.fromEntries(
+      Object.entries(config.env || {}).map(([variable, value]) => [
+        variable,
+        value.replace(ENV_VARIABLE_REFERENCE, (match, name: string) => process.env[name] ?? match),
+      ]),
+    );
+    const env = { ...process.env, ...serverEnv } as Record<string, string>;
+    // Validated above, stdio servers have a command
+    let command = config.command!;
+    let args = config.args || [];
+
+    // Windows-specific fix: Wrap the command in cmd /C to ensure proper path resolution
+    if (process.platform === 'win32' && !command.toLowerCase().includes('cmd')) {
+      const originalCommand = command;
+      const originalArgs = [...args];
+      command = 'cmd';
+      args = ['/C', originalCommand, ...originalArgs];
+      console.log(`[MCP] Windows detected, wrapping command: cmd /C ${originalCommand} ${originalArgs.join(' ')}`);
+    }
+
+    const client = new McpClient(
+      {
+        command,
+        args,
+        env,
+        requestTimeout: config.timeout,
+      },
+      createClientInfo(serverName),
+      createClientCapabilities(),
+    );
+    registerSecretValues(key, { ...config, env: serverEnv });
+    registerRequestHandlers(serverName, client, user);
+    registerNotificationHandlers(serverName, client, user);
+    captureServerLogs(serverName, client, user);
+
+    try {
+      await client.connect();
+      mcpClients.set(key, client);
+      superviseMcpServer(serverName, config, client, user);
+      console.log(`[MCP] Connected to server "${serverName}" using JSON-RPC with stdio transport`);
+      appendServerLog(user.profile.handle, serverName, {
+        level: 'info',
+        source: 'connection',
+        message: 'Connected using stdio transport',
+      });
+    } catch (error: any) {
+      appendServerLog(user.profile.handle, serverName, {
+        level: 'error',
+        source: 'connection',
+        message: `Failed to connect: ${error.message}`,
+      });
+      client.close().catch(() => {});
+      throw new McpError(ErrorCode.ConnectionClosed, `Failed to connect to server: ${error.message}`);
+    }
+  } else if (transportType === 'streamableHttp' || transportType === 'sse') {
+    if (!config.url) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Server "${serverName}" requires a URL for ${transportType} transport`,
+      );
+    }
+    const headers = resolveHttpHeaders(serverName, config);
+    // Servers with static credentials don't take part in the OAuth flow
+    const hasStaticAuthorization = Object.keys(headers).some((header) => header.toLowerCase() === 'authorization');
+    const client = new McpClient(
+      {
+        url: config.url,
+        env: config.env || {},
+        transport: transportType,
+        headers,
+        requestTimeout: config.timeout,
+        authProvider: hasStaticAuthorization
+          ? undefined
+          : createOAuthProvider(serverName, config.url, config.oauth, user),
+      },
+      createClientInfo(serverName),
+      createClientCapabilities(),
+    );
+    registerSecretValues(key, { ...config, headers });
+    registerRequestHandlers(serverName, client, user);
+    registerNotificationHandlers(serverName, client, user);
+    captureServerLogs(serverName, client, user);
+    try {
+      await client.connect();
+      mcpClients.set(key, client);
+      superviseMcpServer(serverName, config, client, user);
+      console.log(`[MCP] Connected to server "${serverName}" using JSON-RPC with ${transportType} transport`);
+      appendServerLog(user.profile.handle, serverName, {
+        level: 'info',
+        source: 'connection',
+        message: `Connected using ${transportType} transport`,
+      });
+    } catch (error: any) {
+      appendServerLog(user.profile.handle, serverName, {
+        level: 'error',
+        source: 'connection',
+        message: `Failed to connect: ${error.message}`,
+      });
+      client.close().catch(() => {});
+      throw new McpError(ErrorCode.ConnectionClosed, `Failed to connect to server: ${error.message}`);
+    }
+  } else {
+    throw new McpError(ErrorCode.InvalidRequest, `Unsupported transport type: ${transportType}`);
+  }
+}
+
+/**
+ * Marks a server as running and watches it for unexpected exits
+ */
+function superviseMcpServer(serverName: string, config: McpServerEntry, client: McpClient, user: McpUser) {
+  const status = getServerStatus(user.profile.handle, serverName);
+  status.state = 'running';
+  status.startedAt = Date.now();
+  status.config = config;
+  publishEvent(user.profile.handle, 'server.started', { serverName, restartCount: status.restartCount });
+
+  client.once('close', (info) => {
+    if (info.expected || mcpClients.get(getClientKey(user.profile.handle, serverName)) !== client) {
+      return;
+    }
+    try {
+      handleServerExit(serverName, info, user);
+    } catch (error) {
+      console.error(`[MCP] Failed to handle exit of server "${serverName}":`, error);
+    }
+  });
+}
+
+function getServerStatus(handle: string, serverName: string): ServerStatus {
+  const key = getClientKey(handle, serverName);
+  let status = serverStatuses.get(key);
+  if (!status) {
+    status = { handle, serverName, state: 'stopped', restartCount: 0 };
+    serverStatuses.set(key, status);
+  }
+  return status;
+}
+
+/**
+ * Cleans up after a server that went away on its own and schedules a restart
+ */
+function handleServerExit(serverName: string, info: CloseInfo, user: McpUser) {
+  const { handle } = user.profile;
+  const status = getServerStatus(handle, serverName);
+  console.error(`[MCP] Server "${serverName}" of user "${handle}" exited unexpectedly: ${info.reason}`);
+  appendServerLog(handle, serverName, { level: 'error', source: 'connection', message: info.reason });
+
+  mcpClients.delete(getClientKey(handle, serverName));
+  rejectPendingSamplingRequests(handle, serverName, info.reason);
+  cancelPendingElicitations(handle, serverName);
+  cancelPendingApprovals(handle, serverName);
+
+  status.lastError = info.reason;
+  status.lastExit = { code: info.code, signal: info.signal, at: Date.now() };
+  publishEvent(handle, 'server.exited', { serverName, reason: info.reason, code: info.code, signal: info.signal });
+  if (status.startedAt && Date.now() - status.startedAt > STABLE_RUN_TIME) {
+    status.restartCount = 0;
+  }
+
+  scheduleRestart(serverName, user);
+}
+
+/**
+ * Restarts a crashed server with exponential backoff until its restart budget is used up
+ */
+function scheduleRestart(serverName: string, user: McpUser) {
+  const status = getServerStatus(user.profile.handle, serverName);
+  // Runs from the close handler, so the settings file isn't read here, it may be invalid
+  const policy = status.config?.restart || {};
+  const maxRestarts = policy.maxRestarts ?? DEFAULT_MAX_RESTARTS;
+
+  if (status.restartCount >= maxRestarts) {
+    status.state = 'crashed';
+    console.error(`[MCP] Server "${serverName}" crashed, giving up after ${status.restartCount} restarts`);
+    publishEvent(user.profile.handle, 'server.crashed', {
+      serverName,
+      restartCount: status.restartCount,
+      lastError: status.lastError,
+    });
+    appendServerLog(user.profile.handle, serverName, {
+      level: 'critical',
+      source: 'connection',
+      message: `Crashed, giving up after ${status.restartCount} restarts`,
+    });
+    return;
+  }
+
+  const delay = Math.min(
+    (policy.initialDelay ?? DEFAULT_RESTART_DELAY) * 2 ** status.restartCount,
+    policy.maxDelay ?? DEFAULT_MAX_RESTART_DELAY,
+  );
+  status.restartCount++;
+  status.state = 'restarting';
+  publishEvent(user.profile.handle, 'server.restarting', {
+    serverName,
+    restartCount: status.restartCount,
+    delay,
+    lastError: status.lastError,
+  });
+  console.log(`[MCP] Restarting server "${serverName}" in ${delay}ms (attempt ${status.restartCount}/${maxRestarts})`);
+  appendServerLog(user.profile.handle, serverName, {
+    level: 'warning',
+    source: 'connection',
+    message: `Restarting in ${delay}ms (attempt ${status.restartCount}/${maxRestarts})`,
+  });
+
+  status.restartTimer = setTimeout(async () => {
+    status.restartTimer = undefined;
+
+    // Pick up config changes and respect servers that were removed or disabled meanwhile
+    let config = status.config;
+    try {
+      const settings = readMcpSettings(user.directories);
+      config = settings.disabledServers.includes(serverName) ? undefined : settings.mcpServers[serverName];
+    } catch (error: any) {
+      console.error(`[MCP] Restarting server "${serverName}" with its last config, settings can't be read:`, error);
+    }
+    if (!config) {
+      status.state = 'stopped';
+      return;
+    }
+
+    try {
+      await startMcpServer(serverName, config, user);
+    } catch (error: any) {
+      status.lastError = error?.message || String(error);
+      scheduleRestart(serverName, user);
+    }
+  }, delay);
+}
+
+/**
+ * Reloads tool cache for a specific server
+ */
+async function reloadToolCache(
+  serverName: string,
+  settings: McpServerDictionary,
+  user: McpUser,
+): Promise<{ tools: any[]; error?: any }> {
+  const { handle } = user.profile;
+  const key = getClientKey(handle, serverName);
+  const wasRunning = mcpClients.has(key);
+
+  try {
+    if (!mcpClients.has(key)) {
+      // Try to start server temporarily
+      await startMcpServer(serverName, settings.mcpServers[serverName], user);
+    }
+
+    const client = mcpClients.get(key);
+    console.log(`[MCP] Reloading tool cache from server "${serverName}"`);
+
+    const tools = await client?.listTools();
+
+    // Cache tools. The settings may have been edited while the server answered, so only the cache entry is written
+    settings.cachedTools[serverName] = tools?.tools || [];
+    const latestSettings = readMcpSettings(user.directories);
+    if (latestSettings.mcpServers[serverName]) {
+      latestSettings.cachedTools[serverName] = settings.cachedTools[serverName];
+      writeMcpSettings(user.directories, latestSettings);
+    }
+
+    if (!wasRunning) {
+      // Stop the server if we started it temporarily
+      await stopMcpServer(handle, serverName);
+    }
+
+    return { tools: tools?.tools || [] };
+  } catch (error: any) {
+    try {
+      if (!wasRunning && mcpClients.has(key)) {
+        // Stop the server if we started it temporarily
+        await stopMcpServer(handle, serverName);
+      }
+    } catch (error) {
+      // Ignore error during cleanup
+    }
+
+    console.error('[MCP] Error reloading tool cache:', error);
+    return { error, tools: [] };
+  }
+}
+
+/**
+ * Stops an MCP server process
+ */
+async function stopMcpServer(handle: string, serverName: string, timeout?: number) {
+  const key = getClientKey(handle, serverName);
+  const status = serverStatuses.get(key);
+  const wasRestarting = status?.state === 'restarting';
+  if (status) {
+    clearTimeout(status.restartTimer);
+    status.restartTimer = undefined;
+    status.state = 'stopped';
+  }
+
+  if (!mcpClients.has(key)) {
+    if (wasRestarting) {
+      // The pending restart was cancelled, which clients were told about
+      publishEvent(handle, 'server.stopped', { serverName });
+    }
+    console.warn(`[MCP] Server "${serverName}" is not running`);
+    return;
+  }
+
+  const client = mcpClients.get(key);
+  rejectPendingSamplingRequests(handle, serverName, 'Server was stopped');
+  cancelPendingElicitations(handle, serverName);
+  cancelPendingApprovals(handle, serverName);
+  await client?.close(timeout);
+  mcpClients.delete(key);
+  console.log(`[MCP] Disconnected from server "${serverName}"`);
+  appendServerLog(handle, serverName, { level: 'info', source: 'connection', message: 'Disconnected' });
+  forgetSecretValues(key);
+  publishEvent(handle, 'server.stopped', { serverName });
+}
+
+/**
+ * Public view of a server's supervisor state
+ */
+function serializeServerStatus(handle: string, serverName: string) {
+  const status = serverStatuses.get(getClientKey(handle, serverName));
+  return {
+    state: status?.state || 'stopped',
+    restartCount: status?.restartCount || 0,
+    lastError: status?.lastError,
+    lastExit: status?.lastExit,
+  };
+}
+
+/**
+ * Public view of a tool call in flight
+ */
+function serializeToolCall(call: ActiveToolCall) {
+  const { id, serverName, toolName, startedAt, progress, approvalId } = call;
+  return { id, serverName, toolName, startedAt, progress, approvalId };
+}
+
+/**
+ * Finds users of the plugin by looking for settings files in SillyTavern's data directory
+ */
+function findKnownUsers(): McpUser[] {
+  const dataRoot: string = (globalThis as any).DATA_ROOT || path.join(process.cwd(), 'data');
+  if (!fs.existsSync(dataRoot)) {
+    return [];
+  }
+
+  const users: McpUser[] = [];
+  for (const entry of fs.readdirSync(dataRoot, { withFileTypes: true })) {
+    // Directories like _storage or _uploads belong to SillyTavern itself
+    if (!entry.isDirectory() || entry.name.startsWith('_') || entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const root = path.join(dataRoot, entry.name);
+    if (!fs.existsSync(path.join(root, MCP_SETTINGS_FILE))) {
+      continue;
+    }
+
+    const directories = Object.fromEntries(
+      Object.entries(USER_DIRECTORY_TEMPLATE).map(([key, directory]) => [key, path.join(root, directory)]),
+    ) as UserDirectoryList;
+    users.push({ profile: { handle: entry.name }, directories });
+  }
+  return users;
+}
+
+/**
+ * Starts every enabled server that has `autoStart` set, for every known user
+ */
+export async function startAutoStartServers(): Promise<void> {
+  const starts: { name: string; start: Promise<void> }[] = [];
+  for (const user of findKnownUsers()) {
+    watchMcpSettings(user);
+    let settings: McpServerDictionary;
+    try {
+      settings = readMcpSettings(user.directories);
+    } catch (error) {
+      console.error(`[MCP] Failed to read settings of user "${user.profile.handle}":`, error);
+      continue;
+    }
+
+    for (const [name, config] of Object.entries(settings.mcpServers)) {
+      if (!config.autoStart || settings.disabledServers.includes(name)) {
+        continue;
+      }
+
+      console.log(`[MCP] Auto-starting server "${name}" for user "${user.profile.handle}"`);
+      starts.push({ name, start: startMcpServer(name, config, user) });
+    }
+  }
+
+  // Started side by side, so a slow or unreachable server doesn't hold up the others
+  const results = await Promise.allSettled(starts.map(({ start }) => start));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`[MCP] Failed to auto-start server "${starts[i].name}":`, result.reason);
+    }
+  });
+}
+
+/**
+ * Stops every running server, killing processes that do not exit within the timeout
+ */
+export async function stopAllMcpServers(timeout: number = DEFAULT_SHUTDOWN_TIMEOUT): Promise<void> {
+  for (const status of serverStatuses.values()) {
+    clearTimeout(status.restartTimer);
+    status.restartTimer = undefined;
+  }
+
+  const running = Array.from(serverStatuses.values()).filter(({ handle, serverName }) =>
+    mcpClients.has(getClientKey(handle, serverName)),
+  );
+  await Promise.allSettled(running.map(({ handle, serverName }) => stopMcpServer(handle, serverName, timeout)));
+}
+
+/**
+ * Accepts "http", as used by other clients, for the streamableHttp transport
+ */
+function normalizeServerEntry(config: any): any {
+  return config && typeof config === 'object' && config.type === 'http'
+    ? { ...config, type: 'streamableHttp' }
+    : config;
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7396) where null removes a field
+ */
+function applyMergePatch(target: any, patch: any): any {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    return patch;
+  }
+
+  const result = target && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether a server has to be restarted for the new config to take effect. Secrets are compared decrypted,
+ * since every save encrypts them anew.
+ */
+function hasLaunchConfigChanged(
+  directories: UserDirectoryList,
+  serverName: string,
+  previous: McpServerEntry,
+  next: McpServerEntry,
+): boolean {
+  const serialize = (config: McpServerEntry) => {
+    try {
+      const resolved = resolveServerSecrets(directories, serverName, config);
+      return JSON.stringify(LAUNCH_CONFIG_FIELDS.map((field) => resolved[field]));
+    } catch {
+      return undefined;
+    }
+  };
+
+  const before = serialize(previous);
+  return before === undefined || before !== serialize(next);
+}
+
+/**
+ * Drops the runtime state kept for a server that is deleted or renamed
+ */
+function forgetServerState(handle: string, serverName: string) {
+  const key = getClientKey(handle, serverName);
+  serverStatuses.delete(key);
+  serverChanges.delete(key);
+  serverLogs.delete(key);
+  forgetSecretValues(key);
+  forgetRateLimits(key);
+  cancelPendingAuthorizations(handle, serverName);
+}
+
+/**
+ * Parses a query parameter holding either a millisecond timestamp or a date string
+ */
+function parseTimeQuery(value: unknown): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  return new Date(isNaN(Number(value)) ? String(value) : Number(value)).getTime();
+}
+
+/**
+ * Escapes text for the HTML pages of the OAuth callback
+ */
+function escapeHtml(text: string = ''): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Sends an error response, keeping the MCP error code and data when available
+ */
+function sendErrorResponse(response: Response, error: any, fallbackMessage: string) {
+  if (error instanceof McpError) {
+    response.status(500).json({
+      error: redactSecrets(error.message),
+      code: error.code,
+      data: error.data,
+    });
+  } else {
+    response.status(500).json({
+      error: redactSecrets(error?.message || fallbackMessage),
+      code: ErrorCode.InternalError,
+    });
+  }
+}
+
+export async function mcpInit(router: Router): Promise<void> {
+  // The OAuth redirect URI has to point back to this router
+  router.use((request, _response, next) => {
+    const { user } = request as Request;
+    if (user) {
+      rememberCallbackUrl(user, request);
+      watchMcpSettings(user);
+    }
+    next();
+  });
+
+  // Get all MCP servers
+  // @ts-ignore
+  router.get('/servers', (request: Request, response: Response) => {
+    try {
+      const settings = readMcpSettings(request.user.directories);
+      const servers = Object.entries(settings.mcpServers || {}).map(([name, config]) => {
+        const client = getMcpClient(request, name);
+        return {
+          name,
+          isRunning: !!client,
+          ...serializeServerStatus(request.user.profile.handle, name),
+          config: {
+            command: config.command,
+            args: config.args,
+            roots: config.roots,
+            autoStart: config.autoStart,
+            // Don't send environment variables for security
+          },
+          secrets: listSecretFields(config),
+          limits: getLimitUsage(
+            request.user.directories,
+            getClientKey(request.user.profile.handle, name),
+            name,
+            config.maxConcurrency,
+            config.rateLimits,
+          ),
+          capabilities: client?.getCapabilities(),
+          disabledTools: settings.disabledTools[name] || [],
+          enabled: !settings.disabledServers.includes(name),
+          cachedTools: settings.cachedTools[name] || [],
+          changes: serializeServerChanges(request.user.profile.handle, name),
+        };
+      });
+
+      response.json(servers);
+    } catch (error: any) {
+      console.error('[MCP] Error getting servers:', error);
+      response.status(500).json({ error: error?.message || 'Failed to get MCP servers' });
+    }
+  });
+
+  // Add an MCP server
+  // @ts-ignore
+  router.post('/servers', jsonParser, (request: Request, response: Response) => {
+    try {
+      const { name } = request.body;
+      const config = normalizeServerEntry(request.body.config);
+
+      if (!name || typeof name !== 'string') {
+        return response.status(400).json({ error: 'Server name is required' });
+      }
+
+      if (!config || typeof config !== 'object') {
+        return response.status(400).json({ error: 'Server configuration is required' });
+      }
+
+      const errors = validateServerEntry(config);
+      if (errors.length > 0) {
+        return response.status(400).json({ error: 'Invalid server configuration', details: errors });
+      }
+
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers) {
+        settings.mcpServers = {};
+      }
+
+      // Existing servers are changed with PUT or PATCH
+      if (settings.mcpServers[name]) {
+        return response.status(409).json({ error: `Server "${name}" already exists` });
+      }
+
+      settings.mcpServers[name] = config;
+      writeMcpSettings(request.user.directories, settings);
+
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error adding server:', error);
+      response.status(500).json({ error: error?.message || 'Failed to add MCP server' });
+    }
+  });
+
+  /**
+   * Replaces (PUT) or merges (PATCH) the config of a server. A new name in the body renames the server and
+   * carries over its disabled tools, tool cache, authorization and rate limits. Running servers are restarted when
+   * renamed, or when a launch field changed and `restart` is set.
+   */
+  const updateServer = async (request: Request, response: Response, merge: boolean) => {
+    try {
+      const { name } = request.params;
+      const { name: newName = name, config: body, restart = false } = request.body;
+
+      if (!newName || typeof newName !== 'string') {
+        return response.status(400).json({ error: 'Server name must be a non-empty string' });
+      }
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return response.status(400).json({ error: 'Server configuration is required' });
+      }
+
+      const settings = readMcpSettings(request.user.directories);
+      const previous = settings.mcpServers[name];
+      if (!previous) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      const renamed = newName !== name;
+      if (renamed && settings.mcpServers[newName]) {
+        return response.status(409).json({ error: `Server "${newName}" already exists` });
+      }
+
+      const config: McpServerEntry = normalizeServerEntry(merge ? applyMergePatch(previous, body) : body);
+      const errors = validateServerEntry(config);
+      if (errors.length > 0) {
+        return response.status(400).json({ error: 'Invalid server configuration', details: errors });
+      }
+      if (renamed && config.name !== undefined) {
+        config.name = newName;
+      }
+
+      const { handle } = request.user.profile;
+      const key = getClientKey(handle, name);
+      const wasRunning = mcpClients.has(key);
+      const launchConfigChanged = hasLaunchConfigChanged(request.user.directories, name, previous, config);
+
+      // Keep the position of the server in the list
+      settings.mcpServers = Object.fromEntries(
+        Object.entries(settings.mcpServers).map(([serverName, entry]) =>
+          serverName === name ? [newName, config] : [serverName, entry],
+        ),
+      );
+      if (renamed) {
+        if (settings.disabledTools[name]) {
+          settings.disabledTools[newName] = settings.disabledTools[name];
+          delete settings.disabledTools[name];
+        }
+        if (settings.cachedTools[name]) {
+          settings.cachedTools[newName] = settings.cachedTools[name];
+          delete settings.cachedTools[name];
+        }
+        if (settings.toolPolicies[name]) {
+          settings.toolPolicies[newName] = settings.toolPolicies[name];
+          delete settings.toolPolicies[name];
+        }
+        settings.disabledServers = settings.disabledServers.map((serverName) =>
+          serverName === name ? newName : serverName,
+        );
+        renameOAuthState(request.user, name, newName);
+        renameRateLimits(request.user.directories, key, getClientKey(handle, newName), name, newName);
+      }
+      writeMcpSettings(request.user.directories, settings);
+
+      let restarted = false;
+      if (wasRunning && (renamed || (launchConfigChanged && restart))) {
+        await stopMcpServer(handle, name);
+        if (renamed) {
+          forgetServerState(handle, name);
+        }
+        await startMcpServer(newName, settings.mcpServers[newName], request.user);
+        restarted = true;
+      } else if (renamed) {
+        if (serverStatuses.get(key)?.state === 'restarting') {
+          await stopMcpServer(handle, name);
+        }
+        forgetServerState(handle, name);
+      } else if (wasRunning && JSON.stringify(previous.roots) !== JSON.stringify(config.roots)) {
+        mcpClients
+          .get(key)
+          ?.notifyRootsListChanged()
+          .catch((error) => {
+            console.error(`[MCP] Failed to notify server "${name}" about changed roots:`, error);
+          });
+      }
+
+      response.json({ name: newName, restarted, restartRequired: wasRunning && launchConfigChanged && !restarted });
+    } catch (error: any) {
+      console.error('[MCP] Error updating server:', error);
+      sendErrorResponse(response, error, 'Failed to update MCP server');
+    }
+  };
+
+  // Replace the config of an MCP server
+  // @ts-ignore
+  router.put('/servers/:name', jsonParser, (request: Request, response: Response) =>
+    updateServer(request, response, false),
+  );
+
+  // Change single fields of an MCP server, null removes a field
+  // @ts-ignore
+  router.patch('/servers/:name', jsonParser, (request: Request, response: Response) =>
+    updateServer(request, response, true),
+  );
+
+  // Delete an MCP server
+  // @ts-ignore
+  router.delete('/servers/:name', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+
+      const { handle } = request.user.profile;
+      const key = getClientKey(handle, name);
+      if (mcpClients.has(key) || serverStatuses.get(key)?.state === 'restarting') {
+        await stopMcpServer(handle, name);
+      }
+      forgetServerState(handle, name);
+      clearOAuthState(request.user, name);
+
+      const settings = readMcpSettings(request.user.directories);
+
+      if (settings.mcpServers && settings.mcpServers[name]) {
+        delete settings.mcpServers[name];
+        delete settings.disabledTools[name];
+        delete settings.cachedTools[name];
+        delete settings.toolPolicies[name];
+        writeMcpSettings(request.user.directories, settings);
+      }
+
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error deleting server:', error);
+      response.status(500).json({ error: error?.message || 'Failed to delete MCP server' });
+    }
+  });
+
+  // Update disabled servers
+  // @ts-ignore
+  router.post('/servers/disabled', jsonParser, (request: Request, response: Response) => {
+    try {
+      const { disabledServers } = request.body;
+
+      if (!Array.isArray(disabledServers)) {
+        return response.status(400).json({
+          error: 'disabledServers must be an array of server names',
+        });
+      }
+
+      const settings = readMcpSettings(request.user.directories);
+
+      // Update disabled servers
+      settings.disabledServers = disabledServers;
+      writeMcpSettings(request.user.directories, settings);
+
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error updating disabled servers:', error);
+      response.status(500).json({
+        error: error?.message || 'Failed to update disabled MCP servers',
+      });
+    }
+  });
+
+  // Start an MCP server
+  // @ts-ignore
+  router.post('/servers/:name/start', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers || !settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      if (settings.disabledServers.includes(name)) {
+        return response.status(403).json({ error: 'Server is disabled' });
+      }
+
+      const config = settings.mcpServers[name];
+
+      // A manual start cancels a pending restart and resets the restart budget
+      const status = serverStatuses.get(getClientKey(request.user.profile.handle, name));
+      if (status) {
+        clearTimeout(status.restartTimer);
+        status.restartTimer = undefined;
+        status.restartCount = 0;
+      }
+
+      await startMcpServer(name, config, request.user);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error starting server:', redactSecrets(String(error?.message)));
+      response.status(500).json({ error: redactSecrets(error?.message || 'Failed to start MCP server') });
+    }
+  });
+
+  // Stop an MCP server
+  // @ts-ignore
+  router.post('/servers/:name/stop', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+
+      const { handle } = request.user.profile;
+      const key = getClientKey(handle, name);
+      if (!mcpClients.has(key) && serverStatuses.get(key)?.state !== 'restarting') {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      await stopMcpServer(handle, name);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error stopping server:', error);
+      response.status(500).json({ error: error?.message || 'Failed to stop MCP server' });
+    }
+  });
+
+  // List tools from an MCP server
+  // @ts-ignore
+  router.get('/servers/:name/list-tools', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers || !settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      const disabledTools = settings.disabledTools[name] || [];
+      const cachedTools = settings.cachedTools[name] || [];
+
+      // If we have cached tools, use them
+      if (cachedTools.length > 0) {
+        const toolsWithStatus = cachedTools.map((tool) => ({
+          ...tool,
+          _enabled: !disabledTools.includes(tool.name),
+          _policy: resolveToolPolicy(tool, settings.toolPolicies[name]).action,
+        }));
+        return response.json(toolsWithStatus);
+      }
+
+      // Try to reload tool cache
+      const { tools: reloadedTools } = await reloadToolCache(name, settings, request.user);
+
+      const toolsWithStatus = reloadedTools.map((tool: { name: string }) => ({
+        ...tool,
+        _enabled: !disabledTools.includes(tool.name),
+        _policy: resolveToolPolicy(tool, settings.toolPolicies[name]).action,
+      }));
+
+      response.json(toolsWithStatus || []);
+    } catch (error: any) {
+      console.error('[MCP] Error listing tools:', error);
+      response.status(500).json({ error: error?.message || 'Failed to list tools' });
+    }
+  });
+
+  // Update disabled tools for a server
+  // @ts-ignore
+  router.post('/servers/:name/disabled-tools', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const { disabledTools } = request.body;
+
+      if (!Array.isArray(disabledTools)) {
+        return response.status(400).json({ error: 'disabledTools must be an array of tool names' });
+      }
+
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers || !settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      // Update disabled tools
+      settings.disabledTools[name] = disabledTools;
+      writeMcpSettings(request.user.directories, settings);
+
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error updating disabled tools:', error);
+      response.status(500).json({ error: error?.message || 'Failed to update disabled tools' });
+    }
+  });
+
+  // Get the tool policies of a server
+  // @ts-ignore
+  router.get('/servers/:name/policies', (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      const policies = settings.toolPolicies[name] || {};
+      // What each cached tool falls back to when none of its rules match
+      const tools = (settings.cachedTools[name] || []).map((tool) => ({
+        name: tool.name,
+        ...resolveToolPolicy(tool, policies),
+      }));
+      response.json({ policies, tools });
+    } catch (error: any) {
+      console.error('[MCP] Error reading tool policies:', error);
+      response.status(500).json({ error: error?.message || 'Failed to read tool policies' });
+    }
+  });
+
+  // Replace the tool policies of a server
+  // @ts-ignore
+  router.put('/servers/:name/policies', jsonParser, (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const { policies } = request.body;
+
+      if (!policies || typeof policies !== 'object' || Array.isArray(policies)) {
+        return response.status(400).json({ error: 'policies must be an object of tool names to policies' });
+      }
+
+      const details = Object.entries(policies).flatMap(([toolName, policy]) =>
+        new Validator()
+          .validate(policy, TOOL_POLICY_SCHEMA)
+          .errors.map((error) => error.stack.replace(/^instance/, toolName)),
+      );
+      if (details.length > 0) {
+        return response.status(400).json({ error: 'Invalid tool policies', details });
+      }
+
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      if (Object.keys(policies).length > 0) {
+        settings.toolPolicies[name] = policies;
+      } else {
+        delete settings.toolPolicies[name];
+      }
+      writeMcpSettings(request.user.directories, settings);
+
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error updating tool policies:', error);
+      response.status(500).json({ error: error?.message || 'Failed to update tool policies' });
+    }
+  });
+
+  // Reload tool cache for a server
+  // @ts-ignore
+  router.post('/servers/:name/reload-tools', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const settings = readMcpSettings(request.user.directories);
+
+      if (!settings.mcpServers || !settings.mcpServers[name]) {
+        return response.status(404).json({ error: 'Server not found' });
+      }
+
+      const { tools } = await reloadToolCache(name, settings, request.user);
+
+      const disabledTools = settings.disabledTools[name] || [];
+      const toolsWithStatus = tools.map((tool: { name: string }) => ({
+        ...tool,
+        _enabled: !disabledTools.includes(tool.name),
+        _policy: resolveToolPolicy(tool, settings.toolPolicies[name]).action,
+      }));
+
+      response.json(toolsWithStatus);
+    } catch (error: any) {
+      console.error('[MCP] Error reloading tool cache:', error);
+      response.status(500).json({ error: error?.message || 'Failed to reload tool cache' });
+    }
+  });
+
+  // Call a tool on an MCP server
+  // @ts-ignore
+  router.post('/servers/:name/call-tool', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const {
+        toolName,
+        arguments: toolArgs,
+        callId = randomUUID(),
+        progress,
+        resolveResourceLinks = false,
+        context,
+      } = request.body;
+
+      const client = getMcpClient(request, name);
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      if (!toolName || typeof toolName !== 'string') {
+        return response.status(400).json({ error: 'Tool name is required' });
+      }
+
+      if (!toolArgs || typeof toolArgs !== 'object') {
+        return response.status(400).json({ error: 'Tool arguments must be an object' });
+      }
+
+      // The frontend may pick the call id itself so it can poll or cancel the call while it runs
+      if (typeof callId !== 'string' || activeToolCalls.has(callId)) {
+        return response.status(409).json({ error: 'Call id must be a unique string' });
+      }
+
+      // Check if the tool is enabled
+      const settings = readMcpSettings(request.user.directories);
+      const disabledTools = settings.disabledTools[name] || [];
+
+      if (disabledTools.includes(toolName)) {
+        return response.status(403).json({ error: 'This tool is disabled' });
+      }
+
+      const tool = settings.cachedTools[name]?.find((t) => t.name === toolName);
+
+      if (!tool) {
+        return response.status(404).json({ error: 'Tool not found' });
+      }
+
+      const schema = tool.inputSchema;
+      const loggedArgs = redactArguments(toolArgs, settings.mcpServers[name]?.redactArguments);
+      console.log(`[MCP] Calling tool "${toolName}" on server "${name}" with arguments:`, loggedArgs);
+
+      const call: ActiveToolCall = {
+        id: callId,
+        serverName: name,
+        toolName,
+        handle: request.user.profile.handle,
+        startedAt: Date.now(),
+        abortController: new AbortController(),
+      };
+      activeToolCalls.set(callId, call);
+
+      const warnings: string[] = [];
+      let releaseSlot: (() => void) | undefined;
+      const decision = resolveToolPolicy(tool, settings.toolPolicies[name], toolArgs, request.user.directories.root);
+      const recordCall = (entry: Pick<ToolCallHistoryEntry, 'status' | 'resultSize' | 'errorCode' | 'error'>) =>
+        appendHistory(request.user.directories, {
+          id: callId,
+          at: call.startedAt,
+          serverName: name,
+          toolName,
+          arguments: loggedArgs,
+          duration: Date.now() - call.startedAt,
+          ...entry,
+          policy: decision.action,
+          ...(warnings.length > 0 ? { warnings } : {}),
+          context: parseToolCallContext(context),
+        });
+
+      try {
+        if (decision.action === 'deny') {
+          throw new McpError(ErrorCode.ToolCallDenied, `Tool "${toolName}" is denied by policy`, {
+            reason: decision.reason,
+          });
+        }
+        if (decision.action === 'ask') {
+          await queueApproval(call, toolArgs, decision.reason);
+        }
+        // Counted once approved, calls the user rejects don't use up the quota
+        consumeRateLimit(
+          request.user.directories,
+          getClientKey(call.handle, name),
           name,
-          isRunning: mcpClients.has(name),
-          config: {
-            command: config.command,
-            args: config.args,
-            // Don't send environment variables for security
+          toolName,
+          settings.mcpServers[name]?.rateLimits,
+        );
+        releaseSlot = await acquireCallSlot(
+          getClientKey(call.handle, name),
+          settings.mcpServers[name]?.maxConcurrency,
+          call.abortController.signal,
+        );
+
+        const result = await client
+          .callTool(
+            {
+              name: toolName,
+              arguments: toolArgs,
+            },
+            schema,
+            {
+              progressToken: progress ? callId : undefined,
+              onProgress: (update) => {
+                call.progress = update;
+                publishEvent(call.handle, 'call.progress', {
+                  callId,
+                  serverName: name,
+                  toolName,
+                  ...update,
+                });
+              },
+              signal: call.abortController.signal,
+              timeout: settings.mcpServers[name]?.toolTimeouts?.[toolName],
+              outputSchema: tool.outputSchema,
+            },
+          )
+          .catch((error) => {
+            // The result is still usable, only strict servers fail the call
+            if (
+              error instanceof McpError &&
+              error.code === ErrorCode.InvalidToolOutput &&
+              !settings.mcpServers[name]?.strictOutputSchema
+            ) {
+              warnings.push(error.message);
+              appendServerLog(call.handle, name, { level: 'warning', source: 'tool', message: error.message });
+              return (error.data as any).result;
+            }
+            throw error;
+          });
+
+        const content = await normalizeToolContent(request.user.directories, result?.content, {
+          serverName: name,
+          client: resolveResourceLinks ? client : undefined,
+        });
+        // Consumers that only read the content still get the structured content, if the server didn't serialize it
+        if (result?.structuredContent !== undefined && !content.some((block) => block.type === 'text')) {
+          content.push({ type: 'text', text: JSON.stringify(result.structuredContent) });
+        }
+
+        response.json({
+          result: {
+            toolName,
+            callId,
+            status: 'executed',
+            data: { ...result, content },
+            structuredContent: result?.structuredContent,
+            ...(warnings.length > 0 ? { warnings } : {}),
           },
-          capabilities: client?.getCapabilities(),
-          disabledTools: settings.disabledTools[name] || [],
-          enabled: !settings.disabledServers.includes(name),
-          cachedTools: settings.cachedTools[name] || [],
-        };
+        });
+        recordCall({ status: 'executed', resultSize: Buffer.byteLength(JSON.stringify(result ?? null)) });
+      } catch (error: any) {
+        appendServerLog(request.user.profile.handle, name, {
+          level: 'error',
+          source: 'tool',
+          message: `Tool "${toolName}" failed: ${error?.message || error}`,
+        });
+        const errorCode = error instanceof McpError ? error.code : ErrorCode.InternalError;
+        if (errorCode === ErrorCode.ToolCallDenied) {
+          response.status(403).json({ error: error.message, code: errorCode, data: error.data });
+        } else if (errorCode === ErrorCode.RateLimited) {
+          response
+            .status(429)
+            .set('Retry-After', String(Math.ceil(error.data.retryAfter / 1000)))
+            .json({ error: error.message, code: errorCode, data: error.data });
+        } else {
+          sendErrorResponse(response, error, 'Failed to execute tool');
+        }
+        recordCall({
+          status:
+            errorCode === ErrorCode.RequestCancelled
+              ? 'cancelled'
+              : errorCode === ErrorCode.ToolCallDenied
+                ? 'denied'
+                : errorCode === ErrorCode.RateLimited
+                  ? 'limited'
+                  : 'failed',
+          errorCode,
+          error: redactSecrets(error?.message || String(error)),
+        });
+      } finally {
+        releaseSlot?.();
+        activeToolCalls.delete(callId);
+      }
+    } catch (error: any) {
+      console.error('[MCP] Error calling tool:', error);
+      response.status(500).json({ error: error?.message || 'Failed to call tool' });
+    }
+  });
+
+  // List resources from an MCP server
+  // @ts-ignore
+  router.get('/servers/:name/resources', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      const cursor = typeof request.query.cursor === 'string' ? request.query.cursor : undefined;
+      const result = await client.listResources(cursor);
+
+      response.json({
+        resources: result?.resources || [],
+        nextCursor: result?.nextCursor,
+      });
+    } catch (error: any) {
+      console.error('[MCP] Error listing resources:', error);
+      sendErrorResponse(response, error, 'Failed to list resources');
+    }
+  });
+
+  // List resource templates from an MCP server
+  // @ts-ignore
+  router.get('/servers/:name/resources/templates', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      const cursor = typeof request.query.cursor === 'string' ? request.query.cursor : undefined;
+      const result = await client.listResourceTemplates(cursor);
+
+      response.json({
+        resourceTemplates: result?.resourceTemplates || [],
+        nextCursor: result?.nextCursor,
+      });
+    } catch (error: any) {
+      console.error('[MCP] Error listing resource templates:', error);
+      sendErrorResponse(response, error, 'Failed to list resource templates');
+    }
+  });
+
+  // Read a resource from an MCP server
+  // @ts-ignore
+  router.post('/servers/:name/resources/read', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const { uri } = request.body;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      if (!uri || typeof uri !== 'string') {
+        return response.status(400).json({ error: 'Resource URI is required' });
+      }
+
+      const result = await client.readResource(uri);
+      response.json({ contents: result?.contents || [] });
+    } catch (error: any) {
+      console.error('[MCP] Error reading resource:', error);
+      sendErrorResponse(response, error, 'Failed to read resource');
+    }
+  });
+
+  // Get subscribed resources and whether they changed since they were last read
+  // @ts-ignore
+  router.get('/servers/:name/resources/subscriptions', (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      response.json({
+        subscriptions: client.getResourceSubscriptions(),
+        listChanged: client.hasResourceListChanged(),
+      });
+    } catch (error: any) {
+      console.error('[MCP] Error getting resource subscriptions:', error);
+      sendErrorResponse(response, error, 'Failed to get resource subscriptions');
+    }
+  });
+
+  // Subscribe to resource updates
+  // @ts-ignore
+  router.post('/servers/:name/resources/subscribe', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const { uri } = request.body;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      if (!uri || typeof uri !== 'string') {
+        return response.status(400).json({ error: 'Resource URI is required' });
+      }
+
+      await client.subscribe(uri);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error subscribing to resource:', error);
+      sendErrorResponse(response, error, 'Failed to subscribe to resource');
+    }
+  });
+
+  // Unsubscribe from resource updates
+  // @ts-ignore
+  router.post('/servers/:name/resources/unsubscribe', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const { uri } = request.body;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      if (!uri || typeof uri !== 'string') {
+        return response.status(400).json({ error: 'Resource URI is required' });
+      }
+
+      await client.unsubscribe(uri);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error unsubscribing from resource:', error);
+      sendErrorResponse(response, error, 'Failed to unsubscribe from resource');
+    }
+  });
+
+  // List prompts from an MCP server
+  // @ts-ignore
+  router.get('/servers/:name/prompts', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      const cursor = typeof request.query.cursor === 'string' ? request.query.cursor : undefined;
+      const result = await client.listPrompts(cursor);
+
+      response.json({
+        prompts: result?.prompts || [],
+        nextCursor: result?.nextCursor,
+      });
+    } catch (error: any) {
+      console.error('[MCP] Error listing prompts:', error);
+      sendErrorResponse(response, error, 'Failed to list prompts');
+    }
+  });
+
+  // Get a rendered prompt from an MCP server
+  // @ts-ignore
+  router.post('/servers/:name/prompts/:prompt/get', jsonParser, async (request: Request, response: Response) => {
+    try {
+      const { name, prompt } = request.params;
+      const { arguments: promptArgs = {} } = request.body || {};
+      const client = getMcpClient(request, name);
+
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
+      }
+
+      if (!promptArgs || typeof promptArgs !== 'object' || Array.isArray(promptArgs)) {
+        return response.status(400).json({ error: 'Prompt arguments must be an object' });
+      }
+
+      // Prompt arguments are always strings per spec
+      const stringArgs: Record<string, string> = {};
+      for (const [key, value] of Object.entries(promptArgs)) {
+        if (value === undefined || value === null) continue;
+        stringArgs[key] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+
+      const result = await client.getPrompt(prompt, stringArgs);
+      response.json({
+        description: result?.description,
+        messages: result?.messages || [],
       });
+    } catch (error: any) {
+      console.error('[MCP] Error getting prompt:', error);
+      sendErrorResponse(response, error, 'Failed to get prompt');
+    }
+  });
+
+  // List sampling requests of the current user waiting for an answer
+  // @ts-ignore
+  router.get('/sampling', (request: Request, response: Response) => {
+    const requests = Array.from(pendingSamplingRequests.values())
+      .filter((pending) => pending.handle === request.user.profile.handle)
+      .map(({ id, serverName, params, createdAt }) => ({
+        id,
+        serverName,
+        params,
+        createdAt,
+      }));
+    response.json(requests);
+  });
+
+  // Answer a sampling request with a generated message, or reject it
+  // @ts-ignore
+  router.post('/sampling/:id/respond', jsonParser, (request: Request, response: Response) => {
+    try {
+      const { id } = request.params;
+      const { result, error } = request.body || {};
+      const pending = pendingSamplingRequests.get(id);
+
+      if (!pending || pending.handle !== request.user.profile.handle) {
+        return response.status(404).json({ error: 'Sampling request not found' });
+      }
+
+      if (error) {
+        clearTimeout(pending.timeout);
+        pendingSamplingRequests.delete(id);
+        pending.reject(
+          new McpError(ErrorCode.InvalidRequest, typeof error === 'string' ? error : 'Sampling request was rejected'),
+        );
+        return response.json({});
+      }
 
-      response.json(servers);
+      if (
+        !result ||
+        typeof result !== 'object' ||
+        !['assistant', 'user'].includes(result.role) ||
+        !result.content ||
+        typeof result.content.type !== 'string' ||
+        typeof result.model !== 'string'
+      ) {
+        return response.status(400).json({ error: 'Result must contain role, content and model' });
+      }
+
+      clearTimeout(pending.timeout);
+      pendingSamplingRequests.delete(id);
+      pending.resolve(result);
+      response.json({});
     } catch (error: any) {
-      console.error('[MCP] Error getting servers:', error);
-      response.status(500).json({ error: error?.message || 'Failed to get MCP servers' });
+      console.error('[MCP] Error answering sampling request:', error);
+      sendErrorResponse(response, error, 'Failed to answer sampling request');
     }
   });
 
-  // Add or update an MCP server
+  // List elicitations waiting for the current user
   // @ts-ignore
-  router.post('/servers', jsonParser, (request: Request, response: Response) => {
+  router.get('/elicitations', (request: Request, response: Response) => {
+    const elicitations = Array.from(pendingElicitations.values())
+      .filter((pending) => pending.handle === request.user.profile.handle)
+      .map(({ id, serverName, message, requestedSchema, createdAt }) => ({
+        id,
+        serverName,
+        message,
+        requestedSchema,
+        createdAt,
+      }));
+    response.json(elicitations);
+  });
+
+  // Accept, decline or cancel an elicitation
+  // @ts-ignore
+  router.post('/elicitations/:id/respond', jsonParser, (request: Request, response: Response) => {
     try {
-      const { name, config } = request.body;
+      const { id } = request.params;
+      const { action, content } = request.body || {};
+      const pending = pendingElicitations.get(id);
 
-      if (!name || typeof name !== 'string') {
-        return response.status(400).json({ error: 'Server name is required' });
+      if (!pending || pending.handle !== request.user.profile.handle) {
+        return response.status(404).json({ error: 'Elicitation not found' });
       }
 
-      if (!config || typeof config !== 'object') {
-        return response.status(400).json({ error: 'Server configuration is required' });
+      if (!['accept', 'decline', 'cancel'].includes(action)) {
+        return response.status(400).json({ error: 'Action must be one of accept, decline or cancel' });
       }
 
-      // Validate based on transport type
-      const transportType = config.type || 'stdio';
-      if (transportType === 'stdio') {
-        if (!config.command || typeof config.command !== 'string') {
-          return response.status(400).json({
-            error: 'Server command is required for stdio transport',
-          });
+      let result: ElicitationResult = { action };
+      if (action === 'accept') {
+        if (!content || typeof content !== 'object' || Array.isArray(content)) {
+          return response.status(400).json({ error: 'Content must be an object when accepting' });
         }
-      } else if (transportType === 'http' || transportType === 'sse') {
-        if (!config.url || typeof config.url !== 'string') {
+
+        const validation = new Validator().validate(content, pending.requestedSchema);
+        if (!validation.valid) {
           return response.status(400).json({
-            error: `Server URL is required for ${transportType} transport`,
+            error: 'Content does not match the requested schema',
+            details: validation.errors.map((error) => error.stack),
           });
         }
-      } else {
-        return response.status(400).json({ error: `Unsupported transport type: ${transportType}` });
-      }
-
-      const settings = readMcpSettings(request.user.directories);
-
-      if (!settings.mcpServers) {
-        settings.mcpServers = {};
-      }
-
-      if (settings.mcpServers[name]) {
-        response.status(409).json({ error: `Server "${name}" already exists` });
+        result.content = content;
       }
 
-      settings.mcpServers[name] = config;
-      writeMcpSettings(request.user.directories, settings);
-
+      clearTimeout(pending.timeout);
+      pendingElicitations.delete(id);
+      pending.resolve(result);
       response.json({});
     } catch (error: any) {
-      console.error('[MCP] Error adding/updating server:', error);
-      response.status(500).json({ error: error?.message || 'Failed to add/update MCP server' });
+      console.error('[MCP] Error answering elicitation:', error);
+      sendErrorResponse(response, error, 'Failed to answer elicitation');
     }
   });
 
-  // Delete an MCP server
+  // List tool calls of the current user that wait for approval
   // @ts-ignore
-  router.delete('/servers/:name', (request: Request, response: Response) => {
+  router.get('/approvals', (request: Request, response: Response) => {
+    const approvals = Array.from(pendingApprovals.values())
+      .filter((pending) => pending.handle === request.user.profile.handle)
+      .map(({ id, callId, serverName, toolName, arguments: args, reason, createdAt }) => ({
+        id,
+        callId,
+        serverName,
+        toolName,
+        arguments: args,
+        reason,
+        createdAt,
+        expiresAt: createdAt + APPROVAL_TIMEOUT,
+      }));
+    response.json(approvals);
+  });
+
+  // Approve or reject a tool call
+  // @ts-ignore
+  router.post('/approvals/:id/respond', jsonParser, (request: Request, response: Response) => {
     try {
-      const { name } = request.params;
+      const { id } = request.params;
+      const { action, reason } = request.body || {};
+      const pending = pendingApprovals.get(id);
 
-      if (mcpClients.has(name)) {
-        stopMcpServer(name);
+      if (!pending || pending.handle !== request.user.profile.handle) {
+        return response.status(404).json({ error: 'Approval not found or expired' });
       }
 
-      const settings = readMcpSettings(request.user.directories);
-
-      if (settings.mcpServers && settings.mcpServers[name]) {
-        delete settings.mcpServers[name];
-        delete settings.disabledTools[name];
-        delete settings.cachedTools[name];
-        writeMcpSettings(request.user.directories, settings);
+      if (action !== 'approve' && action !== 'reject') {
+        return response.status(400).json({ error: 'Action must be approve or reject' });
       }
 
+      if (action === 'approve') {
+        console.log(`[MCP] Tool "${pending.toolName}" on server "${pending.serverName}" was approved`);
+        pending.settle();
+      } else {
+        const message = `Tool "${pending.toolName}" was rejected by the user`;
+        pending.settle(
+          new McpError(ErrorCode.ToolCallDenied, typeof reason === 'string' ? `${message}: ${reason}` : message),
+        );
+      }
       response.json({});
     } catch (error: any) {
-      console.error('[MCP] Error deleting server:', error);
-      response.status(500).json({ error: error?.message || 'Failed to delete MCP server' });
+      console.error('[MCP] Error answering approval:', error);
+      sendErrorResponse(response, error, 'Failed to answer approval');
     }
   });
 
-  // Update disabled servers
+  // Get the tool call history of the current user, newest first
   // @ts-ignore
-  router.post('/servers/disabled', jsonParser, (request: Request, response: Response) => {
+  router.get('/history', (request: Request, response: Response) => {
     try {
-      const { disabledServers } = request.body;
-
-      if (!Array.isArray(disabledServers)) {
-        return response.status(400).json({
-          error: 'disabledServers must be an array of server names',
-        });
+      const query = request.query;
+      const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+
+      const filter: HistoryFilter = {
+        serverName: text('serverName'),
+        toolName: text('toolName'),
+        status: text('status'),
+        chatId: text('chatId'),
+        characterId: text('characterId'),
+        since: parseTimeQuery(text('since')),
+        until: parseTimeQuery(text('until')),
+      };
+      if (Number.isNaN(filter.since) || Number.isNaN(filter.until)) {
+        return response.status(400).json({ error: 'since and until must be timestamps or dates' });
       }
 
-      const settings = readMcpSettings(request.user.directories);
-
-      // Update disabled servers
-      settings.disabledServers = disabledServers;
-      writeMcpSettings(request.user.directories, settings);
-
-      response.json({});
+      const offset = Math.max(0, Number(text('offset')) || 0);
+      const limit = Math.min(MAX_HISTORY_PAGE_SIZE, Math.max(1, Number(text('limit')) || DEFAULT_HISTORY_PAGE_SIZE));
+      const { entries, total } = readHistory(request.user.directories, filter, offset, limit);
+      response.json({ entries, total, offset, limit });
     } catch (error: any) {
-      console.error('[MCP] Error updating disabled servers:', error);
-      response.status(500).json({
-        error: error?.message || 'Failed to update disabled MCP servers',
-      });
+      console.error('[MCP] Error reading tool call history:', error);
+      response.status(500).json({ error: error?.message || 'Failed to read tool call history' });
     }
   });
 
-  // Start an MCP server
+  // List tool calls of the current user that are still running
   // @ts-ignore
-  router.post('/servers/:name/start', async (request: Request, response: Response) => {
-    try {
-      const { name } = request.params;
-      const settings = readMcpSettings(request.user.directories);
+  router.get('/calls', (request: Request, response: Response) => {
+    const calls = Array.from(activeToolCalls.values())
+      .filter((call) => call.handle === request.user.profile.handle)
+      .map(serializeToolCall);
+    response.json(calls);
+  });
 
-      if (!settings.mcpServers || !settings.mcpServers[name]) {
-        return response.status(404).json({ error: 'Server not found' });
-      }
+  // Get the status and latest progress of a running tool call
+  // @ts-ignore
+  router.get('/calls/:id', (request: Request, response: Response) => {
+    const call = activeToolCalls.get(request.params.id);
 
-      if (settings.disabledServers.includes(name)) {
-        return response.status(403).json({ error: 'Server is disabled' });
-      }
+    if (!call || call.handle !== request.user.profile.handle) {
+      return response.status(404).json({ error: 'Call not found or already finished' });
+    }
 
-      const config = settings.mcpServers[name];
+    response.json(serializeToolCall(call));
+  });
 
-      await startMcpServer(name, config);
-      response.json({});
-    } catch (error: any) {
-      console.error('[MCP] Error starting server:', error);
-      response.status(500).json({ error: error?.message || 'Failed to start MCP server' });
+  // Cancel a running tool call
+  // @ts-ignore
+  router.post('/calls/:id/cancel', jsonParser, (request: Request, response: Response) => {
+    const call = activeToolCalls.get(request.params.id);
+
+    if (!call || call.handle !== request.user.profile.handle) {
+      return response.status(404).json({ error: 'Call not found or already finished' });
     }
+
+    const reason = typeof request.body?.reason === 'string' ? request.body.reason : 'Cancelled by user';
+    console.log(`[MCP] Cancelling call "${call.id}" of tool "${call.toolName}" on server "${call.serverName}"`);
+    call.abortController.abort(reason);
+    response.json({});
   });
 
-  // Stop an MCP server
+  // List servers of all users, admins only
   // @ts-ignore
-  router.post('/servers/:name/stop', async (request: Request, response: Response) => {
+  router.get('/admin/servers', (request: Request, response: Response) => {
+    if (!request.user.profile.admin) {
+      return response.status(403).json({ error: 'Only admins can view servers of all users' });
+    }
+
+    const servers = Array.from(serverStatuses.values()).map(({ handle, serverName }) => {
+      const client = mcpClients.get(getClientKey(handle, serverName));
+      return {
+        handle,
+        name: serverName,
+        isRunning: !!client,
+        ...serializeServerStatus(handle, serverName),
+        transport: client?.getTransport(),
+        pid: client?.getPid(),
+      };
+    });
+    response.json(servers);
+  });
+
+  // Stop a server of any user, admins only
+  // @ts-ignore
+  router.post('/admin/servers/:handle/:name/stop', async (request: Request, response: Response) => {
     try {
-      const { name } = request.params;
+      if (!request.user.profile.admin) {
+        return response.status(403).json({ error: 'Only admins can stop servers of other users' });
+      }
 
-      if (!mcpClients.has(name)) {
+      const { handle, name } = request.params;
+      const key = getClientKey(handle, name);
+      if (!mcpClients.has(key) && serverStatuses.get(key)?.state !== 'restarting') {
         return response.status(400).json({ error: 'Server is not running' });
       }
 
-      await stopMcpServer(name);
+      await stopMcpServer(handle, name);
       response.json({});
     } catch (error: any) {
       console.error('[MCP] Error stopping server:', error);
@@ -405,168 +2675,309 @@ export async function mcpInit(router: Router): Promise<void> {
     }
   });
 
-  // List tools from an MCP server
+  // Get list changes announced by a server since they were last acknowledged
   // @ts-ignore
-  router.get('/servers/:name/list-tools', async (request: Request, response: Response) => {
+  router.get('/servers/:name/changes', (request: Request, response: Response) => {
+    const { name } = request.params;
+    response.json(serializeServerChanges(request.user.profile.handle, name) || {});
+  });
+
+  // Acknowledge list changes of a server
+  // @ts-ignore
+  router.delete('/servers/:name/changes', (request: Request, response: Response) => {
+    const { name } = request.params;
+    serverChanges.delete(getClientKey(request.user.profile.handle, name));
+    response.json({});
+  });
+
+  // Set the minimum level of log notifications a server sends
+  // @ts-ignore
+  router.post('/servers/:name/log-level', jsonParser, async (request: Request, response: Response) => {
     try {
       const { name } = request.params;
-      const settings = readMcpSettings(request.user.directories);
+      const { level } = request.body || {};
+      const client = getMcpClient(request, name);
 
-      if (!settings.mcpServers || !settings.mcpServers[name]) {
-        return response.status(404).json({ error: 'Server not found' });
+      if (!client) {
+        return response.status(400).json({ error: 'Server is not running' });
       }
 
-      const disabledTools = settings.disabledTools[name] || [];
-      const cachedTools = settings.cachedTools[name] || [];
+      if (!LOG_LEVELS.includes(level)) {
+        return response.status(400).json({ error: `Level must be one of ${LOG_LEVELS.join(', ')}` });
+      }
 
-      // If we have cached tools, use them
-      if (cachedTools.length > 0) {
-        const toolsWithStatus = cachedTools.map((tool) => ({
-          ...tool,
-          _enabled: !disabledTools.includes(tool.name),
-        }));
-        return response.json(toolsWithStatus);
+      if (!client.getCapabilities()?.logging) {
+        return response.status(400).json({ error: 'Server does not support logging' });
       }
 
-      // Try to reload tool cache
-      const { tools: reloadedTools } = await reloadToolCache(name, settings, request.user.directories);
+      await client.setLogLevel(level);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error setting log level:', error);
+      sendErrorResponse(response, error, 'Failed to set log level');
+    }
+  });
 
-      const toolsWithStatus = reloadedTools.map((tool: { name: string }) => ({
-        ...tool,
-        _enabled: !disabledTools.includes(tool.name),
-      }));
+  // Get recent log entries of a server, optionally filtered by minimum level, source and time range
+  // @ts-ignore
+  router.get('/servers/:name/logs', (request: Request, response: Response) => {
+    const { name } = request.params;
+    const { level, source, since, until } = request.query;
 
-      response.json(toolsWithStatus || []);
-    } catch (error: any) {
-      console.error('[MCP] Error listing tools:', error);
-      response.status(500).json({ error: error?.message || 'Failed to list tools' });
+    if (level !== undefined && !LOG_LEVELS.includes(level as LoggingLevel)) {
+      return response.status(400).json({ error: `Level must be one of ${LOG_LEVELS.join(', ')}` });
+    }
+
+    const minLevel = level ? LOG_LEVELS.indexOf(level as LoggingLevel) : 0;
+    const sinceTime = parseTimeQuery(since);
+    const untilTime = parseTimeQuery(until);
+
+    if (Number.isNaN(sinceTime) || Number.isNaN(untilTime)) {
+      return response.status(400).json({ error: 'since and until must be timestamps or dates' });
     }
+
+    const entries = (serverLogs.get(getClientKey(request.user.profile.handle, name)) || []).filter(
+      (entry) =>
+        LOG_LEVELS.indexOf(entry.level) >= minLevel &&
+        (!source || entry.source === source) &&
+        (sinceTime === undefined || entry.at >= sinceTime) &&
+        (untilTime === undefined || entry.at <= untilTime),
+    );
+    response.json(entries);
   });
 
-  // Update disabled tools for a server
+  // Set, rotate or remove a secret of a server, restarting it when it is running
   // @ts-ignore
-  router.post('/servers/:name/disabled-tools', jsonParser, async (request: Request, response: Response) => {
+  router.post('/servers/:name/secrets', jsonParser, async (request: Request, response: Response) => {
     try {
       const { name } = request.params;
-      const { disabledTools } = request.body;
+      const { field = 'env', key, value, secretKey } = request.body;
+      const fields: McpSecretField[] = ['env', 'headers', 'bearerToken', 'clientSecret'];
 
-      if (!Array.isArray(disabledTools)) {
-        return response.status(400).json({ error: 'disabledTools must be an array of tool names' });
+      if (!fields.includes(field)) {
+        return response.status(400).json({ error: `Secret field must be one of ${fields.join(', ')}` });
+      }
+      if ((field === 'env' || field === 'headers') && (!key || typeof key !== 'string')) {
+        return response.status(400).json({ error: `Secret key is required for ${field}` });
+      }
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        return response.status(400).json({ error: 'Secret value must be a string' });
+      }
+      if (secretKey !== undefined && typeof secretKey !== 'string') {
+        return response.status(400).json({ error: 'SillyTavern secret key must be a string' });
       }
 
       const settings = readMcpSettings(request.user.directories);
-
-      if (!settings.mcpServers || !settings.mcpServers[name]) {
+      if (!settings.mcpServers[name]) {
         return response.status(404).json({ error: 'Server not found' });
       }
 
-      // Update disabled tools
-      settings.disabledTools[name] = disabledTools;
+      const config = setServerSecret(request.user.directories, settings.mcpServers[name], field, key, {
+        value: value ?? undefined,
+        secretKey,
+      });
+      settings.mcpServers[name] = config;
       writeMcpSettings(request.user.directories, settings);
 
-      response.json({});
+      const { handle } = request.user.profile;
+      const restarted = mcpClients.has(getClientKey(handle, name));
+      if (restarted) {
+        await stopMcpServer(handle, name);
+        await startMcpServer(name, settings.mcpServers[name], request.user);
+      }
+
+      response.json({ secrets: listSecretFields(settings.mcpServers[name]), restarted });
     } catch (error: any) {
-      console.error('[MCP] Error updating disabled tools:', error);
-      response.status(500).json({ error: error?.message || 'Failed to update disabled tools' });
+      console.error('[MCP] Error setting secret:', redactSecrets(String(error?.message)));
+      sendErrorResponse(response, error, 'Failed to set secret');
     }
   });
 
-  // Reload tool cache for a server
+  // Check the settings file for problems without changing it
   // @ts-ignore
-  router.post('/servers/:name/reload-tools', async (request: Request, response: Response) => {
+  router.get('/settings/validate', (request: Request, response: Response) => {
     try {
-      const { name } = request.params;
-      const settings = readMcpSettings(request.user.directories);
-
-      if (!settings.mcpServers || !settings.mcpServers[name]) {
-        return response.status(404).json({ error: 'Server not found' });
+      const filePath = path.join(request.user.directories.root, MCP_SETTINGS_FILE);
+      if (!fs.existsSync(filePath)) {
+        return response.json({ valid: true, version: CURRENT_SETTINGS_VERSION, errors: [], servers: {} });
       }
 
-      const { tools } = await reloadToolCache(name, settings, request.user.directories);
+      let settings;
+      try {
+        settings = parseMcpSettings(fs.readFileSync(filePath, 'utf-8'));
+      } catch (error: any) {
+        return response.json({ valid: false, errors: [error.message], parseError: error.data, servers: {} });
+      }
 
-      const disabledTools = settings.disabledTools[name] || [];
-      const toolsWithStatus = tools.map((tool: { name: string }) => ({
-        ...tool,
-        _enabled: !disabledTools.includes(tool.name),
-      }));
+      const version = typeof settings.version === 'number' ? settings.version : 0;
+      // Validate what the file would be after migrating, without writing it
+      migrateSettings(settings);
+      const { errors, servers } = validateSettings(settings);
+      const valid = errors.length === 0 && Object.values(servers).every((problems) => problems.length === 0);
 
-      response.json(toolsWithStatus);
+      response.json({ valid, version, migrationRequired: version < CURRENT_SETTINGS_VERSION, errors, servers });
     } catch (error: any) {
-      console.error('[MCP] Error reloading tool cache:', error);
-      response.status(500).json({ error: error?.message || 'Failed to reload tool cache' });
+      console.error('[MCP] Error validating settings:', error);
+      response.status(500).json({ error: error?.message || 'Failed to validate settings' });
     }
   });
 
-  // Call a tool on an MCP server
+  // Import servers from a Claude Desktop, Cursor or VS Code config, or preview what the import would change
   // @ts-ignore
-  router.post('/servers/:name/call-tool', jsonParser, async (request: Request, response: Response) => {
+  router.post('/import', jsonParser, (request: Request, response: Response) => {
     try {
-      const { name } = request.params;
-      const { toolName, arguments: toolArgs } = request.body;
+      const { format, inputs = {}, overwrite = false, preview = false, servers: selected } = request.body;
 
-      if (!mcpClients.has(name)) {
-        return response.status(400).json({ error: 'Server is not running' });
+      if (format !== undefined && !MCP_CONFIG_FORMATS.includes(format)) {
+        return response.status(400).json({ error: `Format must be one of ${MCP_CONFIG_FORMATS.join(', ')}` });
       }
-
-      if (!toolName || typeof toolName !== 'string') {
-        return response.status(400).json({ error: 'Tool name is required' });
+      if (selected !== undefined && !Array.isArray(selected)) {
+        return response.status(400).json({ error: 'Servers must be an array of server names' });
       }
 
-      if (!toolArgs || typeof toolArgs !== 'object') {
-        return response.status(400).json({ error: 'Tool arguments must be an object' });
+      let parsed;
+      try {
+        const config = typeof request.body.config === 'string' ? parseJsonc(request.body.config) : request.body.config;
+        parsed = parseMcpConfig(config, format);
+      } catch (error: any) {
+        return response.status(400).json({ error: `Invalid config: ${error.message}` });
       }
 
-      // Check if the tool is enabled
       const settings = readMcpSettings(request.user.directories);
-      const disabledTools = settings.disabledTools[name] || [];
+      const plan = Object.entries(parsed.servers).map(([name, server]) => {
+        const { entry, error, warnings, missingInputs } = convertImportedServer(name, server, inputs);
+        const exists = !!settings.mcpServers[name];
+        let action: 'add' | 'overwrite' | 'skip' = exists ? 'overwrite' : 'add';
+        let reason = error || (entry && validateServerEntry(entry).join('; ')) || undefined;
+
+        if (selected && !selected.includes(name)) {
+          reason = 'Not selected';
+        } else if (exists && !overwrite) {
+          reason = 'Server already exists';
+        } else if (missingInputs.length > 0 && !error) {
+          reason = `Missing inputs: ${missingInputs.join(', ')}`;
+        }
+        if (reason) {
+          action = 'skip';
+        }
 
-      if (disabledTools.includes(toolName)) {
-        return response.status(403).json({ error: 'This tool is disabled' });
+        return { name, action, reason, warnings, missingInputs, entry };
+      });
+
+      if (!preview) {
+        for (const { name, action, entry } of plan) {
+          if (action !== 'skip') {
+            settings.mcpServers[name] = entry!;
+          }
+        }
+        writeMcpSettings(request.user.directories, settings);
       }
 
-      const client = mcpClients.get(name);
-      const tool = settings.cachedTools[name]?.find((t) => t.name === toolName);
+      response.json({
+        format: parsed.format,
+        applied: !preview,
+        // Inputs VS Code would prompt for, so the frontend can ask for them
+        inputs: parsed.inputs,
+        servers: plan.map(({ entry, ...server }) => ({
+          ...server,
+          type: entry?.type,
+          command: entry?.command || undefined,
+          args: entry?.args.length ? entry.args : undefined,
+          url: entry?.url,
+          secrets: entry ? listSecretFields(entry) : [],
+        })),
+      });
+    } catch (error: any) {
+      console.error('[MCP] Error importing servers:', error);
+      response.status(500).json({ error: error?.message || 'Failed to import MCP servers' });
+    }
+  });
 
-      if (!tool) {
-        return response.status(404).json({ error: 'Tool not found' });
+  // Export the servers in the config format of another client, secrets are stripped unless requested
+  // @ts-ignore
+  router.get('/export', (request: Request, response: Response) => {
+    try {
+      const format = (request.query.format || 'claude') as McpConfigFormat;
+      if (!MCP_CONFIG_FORMATS.includes(format)) {
+        return response.status(400).json({ error: `Format must be one of ${MCP_CONFIG_FORMATS.join(', ')}` });
       }
 
-      const schema = tool.inputSchema;
-      console.log(`[MCP] Calling tool "${toolName}" on server "${name}" with arguments:`, toolArgs);
+      const includeSecrets = request.query.includeSecrets === 'true';
+      const settings = readMcpSettings(request.user.directories);
+      const servers = Object.fromEntries(
+        Object.entries(settings.mcpServers).map(([name, config]) => [
+          name,
+          includeSecrets ? resolveServerSecrets(request.user.directories, name, config) : config,
+        ]),
+      );
 
-      try {
-        const result = await client?.callTool(
-          {
-            name: toolName,
-            arguments: toolArgs,
-          },
-          schema,
-        );
+      response.json(exportMcpConfig(servers, format, !includeSecrets));
+    } catch (error: any) {
+      console.error('[MCP] Error exporting servers:', error);
+      sendErrorResponse(response, error, 'Failed to export MCP servers');
+    }
+  });
 
-        response.json({
-          result: {
-            toolName,
-            status: 'executed',
-            data: result,
-          },
-        });
-      } catch (error: any) {
-        if (error instanceof McpError) {
-          response.status(500).json({
-            error: error.message,
-            code: error.code,
-            data: error.data,
-          });
-        } else {
-          response.status(500).json({
-            error: error?.message || 'Failed to execute tool',
-            code: ErrorCode.InternalError,
-          });
-        }
+  // Start the authorization flow of a server, returns the URL the user has to open
+  // @ts-ignore
+  router.post('/servers/:name/authorize', async (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      const config = readMcpSettings(request.user.directories).mcpServers[name];
+
+      if (!config) {
+        return response.status(404).json({ error: 'Server not found' });
       }
+      if (!config.url) {
+        return response.status(400).json({ error: 'Only streamableHttp and sse servers can be authorized' });
+      }
+
+      const pending = await startAuthorization(name, config.url, config.oauth, request.user);
+      response.json({ authorizationUrl: pending.authorizationUrl, expiresAt: pending.expiresAt });
     } catch (error: any) {
-      console.error('[MCP] Error calling tool:', error);
-      response.status(500).json({ error: error?.message || 'Failed to call tool' });
+      console.error('[MCP] Error starting authorization:', error);
+      sendErrorResponse(response, error, 'Failed to start authorization');
+    }
+  });
+
+  // Forget the tokens of a server
+  // @ts-ignore
+  router.delete('/servers/:name/oauth', (request: Request, response: Response) => {
+    try {
+      const { name } = request.params;
+      cancelPendingAuthorizations(request.user.profile.handle, name);
+      clearOAuthState(request.user, name);
+      response.json({});
+    } catch (error: any) {
+      console.error('[MCP] Error clearing authorization:', error);
+      response.status(500).json({ error: error?.message || 'Failed to clear authorization' });
+    }
+  });
+
+  // Get authorizations waiting for the user
+  // @ts-ignore
+  router.get('/oauth/pending', (request: Request, response: Response) => {
+    response.json(listPendingAuthorizations(request.user.profile.handle));
+  });
+
+  // Redirect target of the authorization server, opened in the user's browser
+  // @ts-ignore
+  router.get('/oauth/callback', async (request: Request, response: Response) => {
+    try {
+      const serverName = await completeAuthorization(request.user, request.query);
+      response.type('html').send(`<p>Authorized "${escapeHtml(serverName)}". You can close this window.</p>`);
+    } catch (error: any) {
+      console.error('[MCP] Error completing authorization:', error);
+      response
+        .status(400)
+        .type('html')
+        .send(`<p>Authorization failed: ${escapeHtml(error?.message)}</p>`);
     }
   });
+
+  // Stream server lifecycle changes, list changes, progress, logs and pending requests of the current user
+  // @ts-ignore
+  router.get('/events', (request: Request, response: Response) => {
+    subscribeToEvents(request.user.profile.handle, response);
+  });
 }
@@ -0,0 +1,61 @@
+interface SettingsMigration {
+  version: number; // Version of the settings after the migration
+  description: string;
+  migrate: (settings: any) => void;
+}
+
+// Files without a version field are version 0. New migrations are appended with the next version.
+const migrations: SettingsMigration[] = [
+  {
+    version: 1,
+    description: 'Add missing top-level fields',
+    migrate(settings) {
+      settings.mcpServers ??= {};
+      settings.disabledTools ??= {};
+      settings.disabledServers ??= [];
+      settings.cachedTools ??= {};
+    },
+  },
+  {
+    version: 2,
+    description: 'Rename the "http" transport to "streamableHttp"',
+    migrate(settings) {
+      for (const config of Object.values<any>(settings.mcpServers)) {
+        if (config?.type === 'http') {
+          config.type = 'streamableHttp';
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Add tool policies',
+    migrate(settings) {
+      settings.toolPolicies ??= {};
+    },
+  },
+];
+
+export const CURRENT_SETTINGS_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Upgrades settings in place to the current version, returning the version they had before
+ */
+export function migrateSettings(settings: any): number {
+  const version = typeof settings.version === 'number' ? settings.version : 0;
+  if (version > CURRENT_SETTINGS_VERSION) {
+    console.warn(
+      `[MCP] Settings version ${version} is newer than the supported version ${CURRENT_SETTINGS_VERSION}, ` +
+        'update the plugin',
+    );
+    return version;
+  }
+
+  for (const migration of migrations) {
+    if (migration.version > version) {
+      migration.migrate(settings);
+      settings.version = migration.version;
+    }
+  }
+  return version;
+}
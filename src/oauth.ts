@@ -0,0 +1,641 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { Request as ExpressRequest } from 'express';
+import fetch from 'node-fetch';
+import { sync as writeFileAtomicSync } from 'write-file-atomic';
+import { McpAuthProvider, McpError, ErrorCode } from './McpClient';
+import { publishEvent } from './events';
+import { decryptValue, encryptValue } from './secrets';
+import { McpUser } from './mcp';
+
+export interface McpOAuthOptions {
+  clientId?: string; // Pre-registered client, skips dynamic client registration
+  clientSecret?: string;
+  scope?: string; // Space separated scopes to request
+  redirectUri?: string; // Overrides the callback URL of the plugin router
+}
+
+interface WwwAuthenticateChallenge {
+  resourceMetadata?: string;
+  scope?: string;
+  error?: string;
+}
+
+interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  registration_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface OAuthClientInformation {
+  client_id: string;
+  client_secret?: string;
+  redirect_uri: string;
+  issuer: string;
+}
+
+interface OAuthTokens {
+  access_token: string;
+  token_type: string;
+  refresh_token?: string;
+  scope?: string;
+  expires_at?: number; // Millisecond timestamp, calculated from expires_in
+}
+
+interface OAuthServerState {
+  serverUrl: string; // URL of the MCP server the tokens were issued for
+  resource: string; // Resource indicator (RFC 8707) the tokens were requested for, sent again on refresh
+  tokenEndpoint?: string;
+  tokenEndpointAuthMethod?: string;
+  client?: OAuthClientInformation;
+  tokens?: OAuthTokens;
+}
+
+type OAuthStore = Record<string, OAuthServerState>;
+
+interface PendingAuthorization {
+  state: string;
+  handle: string;
+  serverName: string;
+  serverUrl: string;
+  authorizationUrl: string;
+  redirectUri: string;
+  codeVerifier: string;
+  resource: string;
+  tokenEndpoint: string;
+  tokenEndpointAuthMethod: string;
+  client: OAuthClientInformation;
+  createdAt: number;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+  completion: Promise<void>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+export const MCP_OAUTH_FILE = 'mcp_oauth.json';
+
+// Authorizations waiting for the user to finish the flow in the browser, keyed by state parameter
+const pendingAuthorizations: Map<string, PendingAuthorization> = new Map();
+const AUTHORIZATION_TIMEOUT = 5 * 60 * 1000;
+
+// Running token refreshes, keyed by user handle and server name
+const pendingRefreshes: Map<string, Promise<OAuthTokens | undefined>> = new Map();
+// Refresh tokens that are about to expire instead of waiting for a 401
+const TOKEN_EXPIRY_MARGIN = 60 * 1000;
+
+// SillyTavern's default address, used until the plugin router has seen a request of the user
+const DEFAULT_CALLBACK_URL = 'http://localhost:8000/api/plugins/mcp/oauth/callback';
+// Address each user reaches the plugin router at, keyed by user handle. Built from the Host header, so it's kept
+// per user: a request of one user can't redirect the authorization codes of another.
+const callbackUrls: Map<string, string> = new Map();
+
+function getAuthorizationKey(handle: string, serverName: string): string {
+  return `${handle}/${serverName}`;
+}
+
+/**
+ * Remembers the address the user reaches the plugin router at to build their OAuth redirect URIs from
+ */
+export function rememberCallbackUrl(user: McpUser, request: ExpressRequest): void {
+  const host = request.get('host');
+  if (host) {
+    callbackUrls.set(user.profile.handle, `${request.protocol}://${host}${request.baseUrl}/oauth/callback`);
+  }
+}
+
+/**
+ * Returns a copy of the state with its tokens and client secret passed through the mapper
+ */
+function mapOAuthSecrets(state: OAuthServerState, mapper: (value: string) => string): OAuthServerState {
+  const { client, tokens } = state;
+  return {
+    ...state,
+    client: client && { ...client, client_secret: client.client_secret && mapper(client.client_secret) },
+    tokens: tokens && {
+      ...tokens,
+      access_token: mapper(tokens.access_token),
+      refresh_token: tokens.refresh_token && mapper(tokens.refresh_token),
+    },
+  };
+}
+
+function readOAuthStore(user: McpUser): OAuthStore {
+  const filePath = path.join(user.directories.root, MCP_OAUTH_FILE);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  const store = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as OAuthStore;
+  for (const [serverName, state] of Object.entries(store)) {
+    try {
+      store[serverName] = mapOAuthSecrets(state, (value) => decryptValue(user.directories, value));
+    } catch {
+      // The encryption key changed, the server has to be registered and authorized again
+      console.warn(`[MCP] Stored authorization of "${serverName}" can't be decrypted, discarding it`);
+      store[serverName] = { ...state, client: undefined, tokens: undefined };
+    }
+  }
+  return store;
+}
+
+function updateOAuthState(user: McpUser, serverName: string, state: OAuthServerState | undefined) {
+  const store = readOAuthStore(user);
+  if (state) {
+    store[serverName] = state;
+  } else {
+    delete store[serverName];
+  }
+  // Tokens are credentials, keep them encrypted and readable by the owner only
+  const encrypted = Object.fromEntries(
+    Object.entries(store).map(([name, serverState]) => [
+      name,
+      mapOAuthSecrets(serverState, (value) => encryptValue(user.directories, value)),
+    ]),
+  );
+  writeFileAtomicSync(path.join(user.directories.root, MCP_OAUTH_FILE), JSON.stringify(encrypted, null, 4), {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+}
+
+/**
+ * Returns the stored authorization of a server, ignoring state that was issued for a different URL
+ */
+function getOAuthState(user: McpUser, serverName: string, serverUrl: string): OAuthServerState | undefined {
+  const state = readOAuthStore(user)[serverName];
+  return state?.serverUrl === serverUrl ? state : undefined;
+}
+
+/**
+ * Forgets the tokens and client registration of a server
+ */
+export function clearOAuthState(user: McpUser, serverName: string): void {
+  if (readOAuthStore(user)[serverName]) {
+    updateOAuthState(user, serverName, undefined);
+  }
+}
+
+/**
+ * Moves the tokens and client registration of a renamed server
+ */
+export function renameOAuthState(user: McpUser, serverName: string, newName: string): void {
+  const state = readOAuthStore(user)[serverName];
+  if (state) {
+    updateOAuthState(user, newName, state);
+    updateOAuthState(user, serverName, undefined);
+  }
+}
+
+/**
+ * Parses the parameters of a Bearer challenge in a WWW-Authenticate header
+ */
+function parseWwwAuthenticate(header: string | null): WwwAuthenticateChallenge {
+  const challenge: WwwAuthenticateChallenge = {};
+  if (!header || !/^\s*bearer\b/i.test(header)) {
+    return challenge;
+  }
+
+  for (const [, key, quoted, token] of header.matchAll(/([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g)) {
+    const value = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : token;
+    if (key === 'resource_metadata') {
+      challenge.resourceMetadata = value;
+    } else if (key === 'scope') {
+      challenge.scope = value;
+    } else if (key === 'error') {
+      challenge.error = value;
+    }
+  }
+  return challenge;
+}
+
+async function fetchMetadata(url: string): Promise<any | undefined> {
+  try {
+    const res = await fetch(url, { headers: { Accept: 'application/json' } });
+    return res.ok ? await res.json() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Discovers the protected resource metadata (RFC 9728) of an MCP server
+ */
+async function discoverResourceMetadata(serverUrl: string, challenge: WwwAuthenticateChallenge) {
+  const url = new URL(serverUrl);
+  const candidates = [
+    challenge.resourceMetadata,
+    url.pathname !== '/' ? `${url.origin}/.well-known/oauth-protected-resource${url.pathname}` : undefined,
+    `${url.origin}/.well-known/oauth-protected-resource`,
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate) {
+      const metadata = await fetchMetadata(candidate);
+      if (metadata) {
+        return metadata as { resource?: string; authorization_servers?: string[]; scopes_supported?: string[] };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Discovers the metadata of an authorization server (RFC 8414 and OpenID Connect Discovery)
+ */
+async function discoverAuthorizationServerMetadata(issuer: string): Promise<AuthorizationServerMetadata> {
+  const url = new URL(issuer);
+  const issuerPath = url.pathname.replace(/\/$/, '');
+  const candidates = issuerPath
+    ? [
+        `${url.origin}/.well-known/oauth-authorization-server${issuerPath}`,
+        `${url.origin}/.well-known/openid-configuration${issuerPath}`,
+        `${url.origin}${issuerPath}/.well-known/openid-configuration`,
+      ]
+    : [`${url.origin}/.well-known/oauth-authorization-server`, `${url.origin}/.well-known/openid-configuration`];
+
+  for (const candidate of candidates) {
+    const metadata = await fetchMetadata(candidate);
+    if (metadata?.authorization_endpoint && metadata?.token_endpoint) {
+      return metadata as AuthorizationServerMetadata;
+    }
+  }
+
+  // Servers without metadata use the default endpoints of the 2025-03-26 specification
+  return {
+    issuer: url.origin,
+    authorization_endpoint: `${url.origin}/authorize`,
+    token_endpoint: `${url.origin}/token`,
+    registration_endpoint: `${url.origin}/register`,
+  };
+}
+
+/**
+ * Returns the client to authorize with, registering one dynamically (RFC 7591) when needed
+ */
+async function resolveClient(
+  serverName: string,
+  metadata: AuthorizationServerMetadata,
+  redirectUri: string,
+  options: McpOAuthOptions,
+  stored: OAuthClientInformation | undefined,
+): Promise<OAuthClientInformation> {
+  if (options.clientId) {
+    return {
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      redirect_uri: redirectUri,
+      issuer: metadata.issuer,
+    };
+  }
+  if (stored && stored.issuer === metadata.issuer && stored.redirect_uri === redirectUri) {
+    return stored;
+  }
+  if (!metadata.registration_endpoint) {
+    throw new McpError(
+      ErrorCode.AuthorizationRequired,
+      `Authorization server of "${serverName}" does not support dynamic client registration, set oauth.clientId`,
+    );
+  }
+
+  const res = await fetch(metadata.registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    body: JSON.stringify({
+      client_name: `SillyTavern (${serverName})`,
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+      scope: options.scope,
+    }),
+  });
+  if (!res.ok) {
+    throw new McpError(
+      ErrorCode.AuthorizationRequired,
+      `Client registration for "${serverName}" failed: HTTP ${res.status} ${await res.text()}`,
+    );
+  }
+
+  const registration = (await res.json()) as { client_id: string; client_secret?: string };
+  return {
+    client_id: registration.client_id,
+    client_secret: registration.client_secret,
+    redirect_uri: redirectUri,
+    issuer: metadata.issuer,
+  };
+}
+
+/**
+ * Calls the token endpoint, authenticating the client when it has a secret
+ */
+async function requestTokens(
+  tokenEndpoint: string,
+  authMethod: string,
+  client: OAuthClientInformation,
+  params: Record<string, string>,
+): Promise<OAuthTokens> {
+  const body = new URLSearchParams(params);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+
+  if (client.client_secret && authMethod === 'client_secret_basic') {
+    const credentials = `${encodeURIComponent(client.client_id)}:${encodeURIComponent(client.client_secret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', client.client_id);
+    if (client.client_secret) {
+      body.set('client_secret', client.client_secret);
+    }
+  }
+
+  const res = await fetch(tokenEndpoint, { method: 'POST', headers, body: body.toString() });
+  const json = (await res.json().catch(() => ({}))) as any;
+  if (!res.ok || !json.access_token) {
+    const reason = json.error_description || json.error || `HTTP ${res.status}`;
+    throw new McpError(ErrorCode.AuthorizationRequired, `Token request failed: ${reason}`);
+  }
+
+  return {
+    access_token: json.access_token,
+    token_type: json.token_type || 'Bearer',
+    refresh_token: json.refresh_token,
+    scope: json.scope,
+    expires_at: json.expires_in ? Date.now() + Number(json.expires_in) * 1000 : undefined,
+  };
+}
+
+/**
+ * Exchanges the refresh token for new tokens, forgetting them when the server rejects it
+ */
+function refreshTokens(user: McpUser, serverName: string, serverUrl: string): Promise<OAuthTokens | undefined> {
+  const key = getAuthorizationKey(user.profile.handle, serverName);
+  const running = pendingRefreshes.get(key);
+  if (running) {
+    return running;
+  }
+
+  const refresh = (async () => {
+    const state = getOAuthState(user, serverName, serverUrl);
+    if (!state?.tokens?.refresh_token || !state.client || !state.tokenEndpoint) {
+      return undefined;
+    }
+
+    try {
+      const tokens = await requestTokens(state.tokenEndpoint, state.tokenEndpointAuthMethod || 'none', state.client, {
+        grant_type: 'refresh_token',
+        refresh_token: state.tokens.refresh_token,
+        resource: state.resource,
+      });
+      // Servers that do not rotate refresh tokens leave them out of the response
+      tokens.refresh_token ??= state.tokens.refresh_token;
+      updateOAuthState(user, serverName, { ...state, tokens });
+      return tokens;
+    } catch (error: any) {
+      console.warn(`[MCP] Failed to refresh the access token of "${serverName}":`, error.message);
+      updateOAuthState(user, serverName, { ...state, tokens: undefined });
+      return undefined;
+    }
+  })().finally(() => pendingRefreshes.delete(key));
+
+  pendingRefreshes.set(key, refresh);
+  return refresh;
+}
+
+function createCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Prepares an authorization code flow with PKCE and waits for its callback in the background.
+ * A flow that is already waiting for the same server is reused.
+ */
+export async function startAuthorization(
+  serverName: string,
+  serverUrl: string,
+  options: McpOAuthOptions | undefined,
+  user: McpUser,
+  wwwAuthenticate: string | null = null,
+): Promise<PendingAuthorization> {
+  const handle = user.profile.handle;
+  const existing = Array.from(pendingAuthorizations.values()).find(
+    (pending) => pending.handle === handle && pending.serverName === serverName,
+  );
+  if (existing) {
+    return existing;
+  }
+
+  options = options || {};
+  const challenge = parseWwwAuthenticate(wwwAuthenticate);
+  const resourceMetadata = await discoverResourceMetadata(serverUrl, challenge);
+  // Servers without resource metadata act as their own authorization server
+  const issuer = resourceMetadata?.authorization_servers?.[0] || new URL(serverUrl).origin;
+  const metadata = await discoverAuthorizationServerMetadata(issuer);
+  if (metadata.code_challenge_methods_supported && !metadata.code_challenge_methods_supported.includes('S256')) {
+    throw new McpError(
+      ErrorCode.AuthorizationRequired,
+      `Authorization server of "${serverName}" does not support PKCE`,
+    );
+  }
+
+  // Kept with the flow, later requests of the user don't change it
+  const redirectUri = options.redirectUri || callbackUrls.get(handle) || DEFAULT_CALLBACK_URL;
+  const stored = getOAuthState(user, serverName, serverUrl);
+  const client = await resolveClient(serverName, metadata, redirectUri, options, stored?.client);
+  const authMethods = metadata.token_endpoint_auth_methods_supported || [];
+  const tokenEndpointAuthMethod = !client.client_secret
+    ? 'none'
+    : authMethods.includes('client_secret_post') && !authMethods.includes('client_secret_basic')
+      ? 'client_secret_post'
+      : 'client_secret_basic';
+  const resource = resourceMetadata?.resource || serverUrl;
+  updateOAuthState(user, serverName, {
+    ...stored,
+    serverUrl,
+    resource,
+    tokenEndpoint: metadata.token_endpoint,
+    tokenEndpointAuthMethod,
+    client,
+  });
+
+  const state = randomBytes(16).toString('base64url');
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const authorizationUrl = new URL(metadata.authorization_endpoint);
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', client.client_id);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('state', state);
+  authorizationUrl.searchParams.set('code_challenge', createCodeChallenge(codeVerifier));
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+  authorizationUrl.searchParams.set('resource', resource);
+  const scope = options.scope || challenge.scope || resourceMetadata?.scopes_supported?.join(' ');
+  if (scope) {
+    authorizationUrl.searchParams.set('scope', scope);
+  }
+
+  let resolve!: () => void;
+  let reject!: (error: Error) => void;
+  const completion = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // The flow may be started without anybody waiting for it
+  completion.catch(() => {});
+
+  const createdAt = Date.now();
+  const pending: PendingAuthorization = {
+    state,
+    handle,
+    serverName,
+    serverUrl,
+    authorizationUrl: authorizationUrl.href,
+    redirectUri,
+    codeVerifier,
+    resource,
+    tokenEndpoint: metadata.token_endpoint,
+    tokenEndpointAuthMethod,
+    client,
+    createdAt,
+    expiresAt: createdAt + AUTHORIZATION_TIMEOUT,
+    timer: setTimeout(() => {
+      finishAuthorization(
+        pending,
+        new McpError(ErrorCode.AuthorizationRequired, `Authorization of "${serverName}" was not completed in time`, {
+          authorizationUrl: pending.authorizationUrl,
+        }),
+      );
+    }, AUTHORIZATION_TIMEOUT),
+    completion,
+    resolve,
+    reject,
+  };
+  pendingAuthorizations.set(state, pending);
+
+  console.log(`[MCP] Server "${serverName}" requires authorization: ${pending.authorizationUrl}`);
+  publishEvent(handle, 'auth.required', { serverName, authorizationUrl: pending.authorizationUrl });
+  return pending;
+}
+
+function finishAuthorization(pending: PendingAuthorization, error?: Error) {
+  clearTimeout(pending.timer);
+  pendingAuthorizations.delete(pending.state);
+  publishEvent(pending.handle, 'auth.completed', {
+    serverName: pending.serverName,
+    success: !error,
+    error: error?.message,
+  });
+
+  if (error) {
+    pending.reject(error);
+  } else {
+    pending.resolve();
+  }
+}
+
+/**
+ * Completes the authorization flow the callback belongs to by exchanging the code for tokens
+ */
+export async function completeAuthorization(user: McpUser, query: Record<string, any>): Promise<string> {
+  const pending = pendingAuthorizations.get(String(query.state));
+  if (!pending || pending.handle !== user.profile.handle) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Unknown or expired authorization request');
+  }
+
+  if (query.error) {
+    const error = new McpError(
+      ErrorCode.AuthorizationRequired,
+      `Authorization of "${pending.serverName}" was denied: ${query.error_description || query.error}`,
+    );
+    finishAuthorization(pending, error);
+    throw error;
+  }
+
+  try {
+    const tokens = await requestTokens(pending.tokenEndpoint, pending.tokenEndpointAuthMethod, pending.client, {
+      grant_type: 'authorization_code',
+      code: String(query.code),
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.codeVerifier,
+      resource: pending.resource,
+    });
+    updateOAuthState(user, pending.serverName, {
+      serverUrl: pending.serverUrl,
+      resource: pending.resource,
+      tokenEndpoint: pending.tokenEndpoint,
+      tokenEndpointAuthMethod: pending.tokenEndpointAuthMethod,
+      client: pending.client,
+      tokens,
+    });
+  } catch (error: any) {
+    finishAuthorization(pending, error);
+    throw error;
+  }
+
+  finishAuthorization(pending);
+  return pending.serverName;
+}
+
+/**
+ * Lists the authorizations of the user that are waiting for the browser flow
+ */
+export function listPendingAuthorizations(handle: string) {
+  return Array.from(pendingAuthorizations.values())
+    .filter((pending) => pending.handle === handle)
+    .map(({ serverName, authorizationUrl, createdAt, expiresAt }) => ({
+      serverName,
+      authorizationUrl,
+      createdAt,
+      expiresAt,
+    }));
+}
+
+/**
+ * Cancels waiting authorizations of a server, e.g. when it is stopped
+ */
+export function cancelPendingAuthorizations(handle: string, serverName: string): void {
+  for (const pending of pendingAuthorizations.values()) {
+    if (pending.handle === handle && pending.serverName === serverName) {
+      finishAuthorization(pending, new McpError(ErrorCode.RequestCancelled, 'Authorization was cancelled'));
+    }
+  }
+}
+
+/**
+ * Creates the auth provider of an HTTP/SSE server. Expired tokens are refreshed, and a 401 without a usable
+ * refresh token starts the authorization flow and waits until the user completed it in the browser.
+ */
+export function createOAuthProvider(
+  serverName: string,
+  serverUrl: string,
+  options: McpOAuthOptions | undefined,
+  user: McpUser,
+): McpAuthProvider {
+  return {
+    async getAccessToken() {
+      const tokens = getOAuthState(user, serverName, serverUrl)?.tokens;
+      if (tokens?.expires_at && tokens.expires_at - TOKEN_EXPIRY_MARGIN < Date.now()) {
+        return (await refreshTokens(user, serverName, serverUrl))?.access_token;
+      }
+      return tokens?.access_token;
+    },
+
+    async handleUnauthorized(wwwAuthenticate) {
+      const challenge = parseWwwAuthenticate(wwwAuthenticate);
+      // A refreshed token would still lack the scopes the server asks for
+      if (challenge.error !== 'insufficient_scope' && (await refreshTokens(user, serverName, serverUrl))) {
+        return true;
+      }
+
+      const pending = await startAuthorization(serverName, serverUrl, options, user, wwwAuthenticate);
+      await pending.completion;
+      return true;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import path from 'node:path';
+import { Schema } from 'jsonschema';
+
+export type ToolPolicyAction = 'allow' | 'ask' | 'deny';
+
+/**
+ * Rule on one argument of a tool call. Rules of a tool are checked in order and the first one that matches wins.
+ */
+export interface ToolPolicyRule {
+  action: ToolPolicyAction;
+  argument: string; // Name of the argument, nested arguments as "options.path"
+  pathUnder?: string; // Matches if the argument is a path inside this directory, relative to the user's root
+  pattern?: string; // Matches if the argument matches this regular expression
+  equals?: unknown; // Matches if the argument equals this value
+}
+
+export interface ToolPolicy {
+  action?: ToolPolicyAction; // Used when no rule matches
+  rules?: ToolPolicyRule[];
+}
+
+/**
+ * Policies of a server's tools, keyed by tool name. The "*" key applies to every tool: its rules are checked after
+ * the tool's own rules and its action is used for tools without one.
+ */
+export type ServerToolPolicies = Record<string, ToolPolicy>;
+
+export const DEFAULT_POLICY_KEY = '*';
+
+export interface ToolPolicyDecision {
+  action: ToolPolicyAction;
+  reason: string;
+}
+
+const action: Schema = { enum: ['allow', 'ask', 'deny'] };
+
+export const TOOL_POLICY_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    action,
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          action,
+          argument: { type: 'string', minLength: 1 },
+          pathUnder: { type: 'string' },
+          pattern: { type: 'string', format: 'regex' },
+          equals: {},
+        },
+        required: ['action', 'argument'],
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+function getArgument(args: any, name: string): unknown {
+  return name.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), args);
+}
+
+function matchesRule(rule: ToolPolicyRule, args: any, root: string): boolean {
+  const value = getArgument(args, rule.argument);
+  if (value === undefined) {
+    return false;
+  }
+
+  if (rule.pathUnder !== undefined) {
+    if (typeof value !== 'string') {
+      return false;
+    }
+    const base = path.resolve(root, rule.pathUnder);
+    const relative = path.relative(base, path.resolve(root, value));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false;
+    }
+  }
+  if (rule.pattern !== undefined && (typeof value !== 'string' || !new RegExp(rule.pattern).test(value))) {
+    return false;
+  }
+  if (rule.equals !== undefined && JSON.stringify(value) !== JSON.stringify(rule.equals)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Default for tools without a policy, from the hints the server gives about the tool
+ */
+function getAnnotationPolicy(tool: any): ToolPolicyDecision {
+  const annotations = tool?.annotations || {};
+  if (annotations.readOnlyHint === true) {
+    return { action: 'allow', reason: 'Tool is read-only' };
+  }
+  if (annotations.destructiveHint === true) {
+    return { action: 'ask', reason: 'Tool is destructive' };
+  }
+  return { action: 'allow', reason: 'No policy set' };
+}
+
+/**
+ * Decides whether a tool call may run. Without arguments, only the tool's own action is considered.
+ */
+export function resolveToolPolicy(
+  tool: any,
+  policies: ServerToolPolicies | undefined,
+  args?: any,
+  root = '',
+): ToolPolicyDecision {
+  const policy = policies?.[tool.name];
+  const serverPolicy = policies?.[DEFAULT_POLICY_KEY];
+  if (args !== undefined) {
+    const rules = [...(policy?.rules || []), ...(serverPolicy?.rules || [])];
+    const rule = rules.find((rule) => matchesRule(rule, args, root));
+    if (rule) {
+      return { action: rule.action, reason: `Rule on argument "${rule.argument}"` };
+    }
+  }
+
+  if (policy?.action) {
+    return { action: policy.action, reason: 'Tool policy' };
+  }
+  if (serverPolicy?.action) {
+    return { action: serverPolicy.action, reason: 'Server policy' };
+  }
+  return getAnnotationPolicy(tool);
+}
@@ -0,0 +1,116 @@
+import { Schema, Validator } from 'jsonschema';
+import { TOOL_POLICY_SCHEMA } from './policies';
+
+const stringArray: Schema = { type: 'array', items: { type: 'string' } };
+const stringMap: Schema = { type: 'object', additionalProperties: { type: 'string' } };
+const milliseconds: Schema = { type: 'integer', minimum: 1 };
+const count: Schema = { type: 'integer', minimum: 1 };
+
+/**
+ * Schema of a server entry in mcp_settings.json
+ */
+export const MCP_SERVER_ENTRY_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { enum: ['stdio', 'streamableHttp', 'sse'] },
+    command: { type: 'string' },
+    args: stringArray,
+    env: stringMap,
+    url: { type: 'string', format: 'uri' },
+    headers: stringMap,
+    bearerToken: { type: 'string' },
+    roots: {
+      type: 'object',
+      properties: { directories: stringArray, paths: stringArray },
+      additionalProperties: false,
+    },
+    timeout: milliseconds,
+    toolTimeouts: { type: 'object', additionalProperties: milliseconds },
+    restart: {
+      type: 'object',
+      properties: {
+        maxRestarts: { type: 'integer', minimum: 0 },
+        initialDelay: { type: 'integer', minimum: 0 },
+        maxDelay: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    autoStart: { type: 'boolean' },
+    strictOutputSchema: { type: 'boolean' },
+    redactArguments: stringArray,
+    maxConcurrency: count,
+    rateLimits: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: { perMinute: { type: 'number', exclusiveMinimum: 0 }, burst: count, perDay: count },
+        additionalProperties: false,
+      },
+    },
+    oauth: {
+      type: 'object',
+      properties: {
+        clientId: { type: 'string' },
+        clientSecret: { type: 'string' },
+        scope: { type: 'string' },
+        redirectUri: { type: 'string', format: 'uri' },
+      },
+      additionalProperties: false,
+    },
+  },
+  // Remote transports need a URL, everything else launches a command
+  if: { properties: { type: { enum: ['streamableHttp', 'sse'] } }, required: ['type'] },
+  then: { required: ['url'] },
+  else: { required: ['command'], properties: { command: { minLength: 1 } } },
+};
+
+/**
+ * Schema of mcp_settings.json. Server entries are validated on their own, so one broken entry
+ * doesn't hide the problems of the others.
+ */
+export const MCP_SETTINGS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    version: { type: 'integer', minimum: 0 },
+    mcpServers: { type: 'object' },
+    disabledTools: { type: 'object', additionalProperties: stringArray },
+    disabledServers: stringArray,
+    cachedTools: { type: 'object', additionalProperties: { type: 'array' } },
+    toolPolicies: {
+      type: 'object',
+      additionalProperties: { type: 'object', additionalProperties: TOOL_POLICY_SCHEMA },
+    },
+  },
+  required: ['version', 'mcpServers', 'disabledTools', 'disabledServers', 'cachedTools', 'toolPolicies'],
+};
+
+export interface SettingsValidation {
+  errors: string[]; // Problems outside of server entries
+  servers: Record<string, string[]>; // Problems per server entry
+}
+
+/**
+ * Validates the settings and each of their server entries
+ */
+export function validateSettings(settings: unknown): SettingsValidation {
+  const errors = new Validator().validate(settings, MCP_SETTINGS_SCHEMA).errors.map((error) => error.stack);
+  const servers: Record<string, string[]> = {};
+  const mcpServers = (settings as any)?.mcpServers;
+  if (mcpServers && typeof mcpServers === 'object' && !Array.isArray(mcpServers)) {
+    for (const [name, config] of Object.entries(mcpServers)) {
+      servers[name] = validateServerEntry(config);
+    }
+  }
+  return { errors, servers };
+}
+
+/**
+ * Validates a server entry, returning the problems found
+ */
+export function validateServerEntry(config: unknown): string[] {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['Server configuration must be an object'];
+  }
+  return new Validator().validate(config, MCP_SERVER_ENTRY_SCHEMA).errors.map((error) => error.stack);
+}
@@ -0,0 +1,249 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { sync as writeFileAtomicSync } from 'write-file-atomic';
+import { McpError, ErrorCode } from './McpClient';
+import { UserDirectoryList } from './mcp';
+
+/**
+ * Parts of a server entry holding secret values. Every value of `env` and `headers` counts as secret.
+ */
+export interface McpSecretHolder {
+  env?: Record<string, string>;
+  headers?: Record<string, string>;
+  bearerToken?: string;
+  oauth?: { clientSecret?: string; [key: string]: any };
+}
+
+export type McpSecretField = 'env' | 'headers' | 'bearerToken' | 'clientSecret';
+
+export const MCP_SECRETS_KEY_FILE = 'mcp_secrets.key';
+const SILLYTAVERN_SECRETS_FILE = 'secrets.json';
+
+const ENCRYPTED_PREFIX = 'encrypted:v1:';
+const SILLYTAVERN_SECRET_PREFIX = 'sillytavern-secret:';
+const CIPHER = 'aes-256-gcm';
+
+const REDACTED = '********';
+// Shorter values like "1" or "true" would redact half of every log line
+const MIN_REDACTED_LENGTH = 4;
+
+// Resolved secret values of running servers, keyed by user handle and server name
+const activeSecrets: Map<string, string[]> = new Map();
+
+/**
+ * Reads the user's encryption key, creating it on first use
+ */
+function getEncryptionKey(directories: UserDirectoryList): Buffer {
+  const filePath = path.join(directories.root, MCP_SECRETS_KEY_FILE);
+  if (!fs.existsSync(filePath)) {
+    writeFileAtomicSync(filePath, randomBytes(32).toString('base64'), { encoding: 'utf-8', mode: 0o600 });
+  }
+  return Buffer.from(fs.readFileSync(filePath, 'utf-8').trim(), 'base64');
+}
+
+/**
+ * Whether a value is stored as it is: already encrypted, a reference to SillyTavern's secrets or to an
+ * environment variable
+ */
+function isStoredAsIs(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX) || value.startsWith(SILLYTAVERN_SECRET_PREFIX) || value.includes('${');
+}
+
+function encryptSecret(directories: UserDirectoryList, value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, getEncryptionKey(directories), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return ENCRYPTED_PREFIX + [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':');
+}
+
+function decryptSecret(directories: UserDirectoryList, value: string): string {
+  const [iv, authTag, encrypted] = value
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(':')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(CIPHER, getEncryptionKey(directories), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf-8');
+}
+
+/**
+ * Reads a secret from SillyTavern's secrets.json, which holds either plain values or lists of saved values
+ */
+function readSillyTavernSecret(directories: UserDirectoryList, key: string): string | undefined {
+  const filePath = path.join(directories.root, SILLYTAVERN_SECRETS_FILE);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const value = JSON.parse(fs.readFileSync(filePath, 'utf-8'))[key];
+  if (Array.isArray(value)) {
+    return (value.find((secret) => secret.active) ?? value[0])?.value;
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Returns a copy of the config with every secret value passed through the mapper
+ */
+function mapSecrets<T extends McpSecretHolder>(config: T, mapper: (value: string, field: string) => string): T {
+  const mapRecord = (field: string, record?: Record<string, string>) =>
+    record && Object.fromEntries(Object.entries(record).map(([key, value]) => [key, mapper(value, `${field}.${key}`)]));
+
+  const mapped: T = { ...config };
+  if (config.env) {
+    mapped.env = mapRecord('env', config.env);
+  }
+  if (config.headers) {
+    mapped.headers = mapRecord('headers', config.headers);
+  }
+  if (config.bearerToken) {
+    mapped.bearerToken = mapper(config.bearerToken, 'bearerToken');
+  }
+  if (config.oauth?.clientSecret) {
+    mapped.oauth = { ...config.oauth, clientSecret: mapper(config.oauth.clientSecret, 'oauth.clientSecret') };
+  }
+  return mapped;
+}
+
+function listSecrets(config: McpSecretHolder): { field: string; value: string }[] {
+  const secrets: { field: string; value: string }[] = [];
+  mapSecrets(config, (value, field) => {
+    secrets.push({ field, value });
+    return value;
+  });
+  return secrets;
+}
+
+/**
+ * Encrypts secret values that are stored in plain text
+ */
+export function encryptServerSecrets<T extends McpSecretHolder>(directories: UserDirectoryList, config: T): T {
+  return mapSecrets(config, (value) => (isStoredAsIs(value) ? value : encryptSecret(directories, value)));
+}
+
+/**
+ * Whether the config still holds secret values in plain text
+ */
+export function hasPlaintextSecrets(config: McpSecretHolder): boolean {
+  return listSecrets(config).some(({ value }) => !isStoredAsIs(value));
+}
+
+/**
+ * Encrypts a secret that is kept outside of the settings, e.g. an OAuth token
+ */
+export function encryptValue(directories: UserDirectoryList, value: string): string {
+  return value.startsWith(ENCRYPTED_PREFIX) ? value : encryptSecret(directories, value);
+}
+
+/**
+ * Decrypts a value of `encryptValue`. Values stored in plain text by older versions are returned as they are.
+ */
+export function decryptValue(directories: UserDirectoryList, value: string): string {
+  return value.startsWith(ENCRYPTED_PREFIX) ? decryptSecret(directories, value) : value;
+}
+
+/**
+ * Decrypts the secret values of a server and looks up its references to SillyTavern's secrets
+ */
+export function resolveServerSecrets<T extends McpSecretHolder>(
+  directories: UserDirectoryList,
+  serverName: string,
+  config: T,
+): T {
+  return mapSecrets(config, (value, field) => {
+    if (value.startsWith(ENCRYPTED_PREFIX)) {
+      try {
+        return decryptSecret(directories, value);
+      } catch {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Secret "${field}" of server "${serverName}" can't be decrypted, set it again`,
+        );
+      }
+    }
+
+    if (value.startsWith(SILLYTAVERN_SECRET_PREFIX)) {
+      const key = value.slice(SILLYTAVERN_SECRET_PREFIX.length);
+      const secret = readSillyTavernSecret(directories, key);
+      if (secret === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `SillyTavern secret "${key}" used by "${field}" of server "${serverName}" is not set`,
+        );
+      }
+      return secret;
+    }
+
+    return value;
+  });
+}
+
+/**
+ * Stores, replaces or removes (value undefined) a secret of a server
+ */
+export function setServerSecret<T extends McpSecretHolder>(
+  directories: UserDirectoryList,
+  config: T,
+  field: McpSecretField,
+  key: string | undefined,
+  value: { value?: string; secretKey?: string },
+): T {
+  const stored =
+    value.secretKey !== undefined
+      ? SILLYTAVERN_SECRET_PREFIX + value.secretKey
+      : value.value !== undefined
+        ? encryptSecret(directories, value.value)
+        : undefined;
+
+  const updated: T = { ...config };
+  if (field === 'env' || field === 'headers') {
+    const record = { ...config[field] };
+    if (stored === undefined) {
+      delete record[key!];
+    } else {
+      record[key!] = stored;
+    }
+    updated[field] = record;
+  } else if (field === 'bearerToken') {
+    updated.bearerToken = stored;
+  } else {
+    updated.oauth = { ...config.oauth, clientSecret: stored };
+  }
+  return updated;
+}
+
+/**
+ * Names of the secrets of a server, without their values
+ */
+export function listSecretFields(config: McpSecretHolder): string[] {
+  return listSecrets(config).map(({ field }) => field);
+}
+
+/**
+ * Remembers the resolved secret values of a running server, so they can be redacted from logs and responses
+ */
+export function registerSecretValues(key: string, config: McpSecretHolder): void {
+  activeSecrets.set(
+    key,
+    listSecrets(config)
+      .map(({ value }) => value)
+      .filter((value) => value.length >= MIN_REDACTED_LENGTH),
+  );
+}
+
+export function forgetSecretValues(key: string): void {
+  activeSecrets.delete(key);
+}
+
+/**
+ * Replaces secret values of running servers in the text
+ */
+export function redactSecrets(text: string): string {
+  for (const values of activeSecrets.values()) {
+    for (const value of values) {
+      text = text.split(value).join(REDACTED);
+    }
+  }
+  return text;
+}
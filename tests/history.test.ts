@@ -0,0 +1,22 @@
+import { describe, expect, test } from '@jest/globals';
+import { redactArguments } from '../src/history';
+
+describe('redactArguments', () => {
+  test('masks arguments whose name contains a sensitive word', () => {
+    const names = ['password', 'api_key', 'x-api-key', 'apiKey', 'APIKey', 'authToken', 'client_secret', 'privateKey'];
+    const redacted = redactArguments(Object.fromEntries(names.map((name) => [name, 'value'])));
+    expect(Object.values(redacted)).toEqual(names.map(() => '********'));
+  });
+
+  test('keeps arguments that only contain a sensitive word as part of another word', () => {
+    const args = { author: 'a', max_tokens: 100, passage: 'p', compass: 'c', keyword: 'k' };
+    expect(redactArguments(args)).toEqual(args);
+  });
+
+  test('masks nested arguments and names listed by the server config', () => {
+    expect(redactArguments({ options: { token: 't', path: 'x' }, query: 'q' }, ['query'])).toEqual({
+      options: { token: '********', path: 'x' },
+      query: '********',
+    });
+  });
+});
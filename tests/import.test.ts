@@ -0,0 +1,117 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import express, { Router } from 'express';
+import { afterAll, afterEach, beforeAll, describe, expect, test } from '@jest/globals';
+import { mcpInit, stopAllMcpServers, unwatchAllMcpSettings } from '../src/mcp';
+
+/**
+ * Minimal streamable HTTP MCP server with a single tool
+ */
+function createRemoteServer(): http.Server {
+  return http.createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      const message = JSON.parse(body);
+      if (message.id === undefined) {
+        response.writeHead(202).end();
+        return;
+      }
+
+      const result =
+        message.method === 'initialize'
+          ? { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} } }
+          : message.method === 'tools/list'
+            ? { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] }
+            : {};
+      response.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'test-session' });
+      response.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }));
+    });
+  });
+}
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+describe('remote servers', () => {
+  let root: string;
+  let plugin: http.Server;
+  let remote: http.Server;
+  let pluginUrl: string;
+  let remoteUrl: string;
+
+  const call = async (method: string, route: string, body?: unknown) => {
+    const res = await fetch(`${pluginUrl}/api/plugins/mcp${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, json: (await res.json()) as any };
+  };
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-'));
+    const app = express();
+    app.use((request: any, _response, next) => {
+      request.user = { profile: { handle: 'test-user' }, directories: { root } };
+      next();
+    });
+    const router = Router();
+    await mcpInit(router);
+    app.use('/api/plugins/mcp', router);
+
+    plugin = http.createServer(app);
+    remote = createRemoteServer();
+    pluginUrl = await listen(plugin);
+    remoteUrl = `${await listen(remote)}/mcp`;
+  });
+
+  afterEach(async () => {
+    await stopAllMcpServers();
+  });
+
+  afterAll(async () => {
+    unwatchAllMcpSettings();
+    await new Promise((resolve) => plugin.close(resolve));
+    await new Promise((resolve) => remote.close(resolve));
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('imports a URL server without a command and starts it', async () => {
+    const imported = await call('POST', '/import', {
+      format: 'cursor',
+      config: { mcpServers: { remote: { url: remoteUrl } } },
+    });
+    expect(imported.status).toBe(200);
+    expect(imported.json.servers).toEqual([
+      expect.objectContaining({ name: 'remote', action: 'add', type: 'streamableHttp', url: remoteUrl }),
+    ]);
+
+    const settings = JSON.parse(fs.readFileSync(path.join(root, 'mcp_settings.json'), 'utf-8'));
+    expect(settings.mcpServers.remote.command).toBeUndefined();
+
+    expect((await call('POST', '/servers/remote/start')).status).toBe(200);
+    const tools = await call('GET', '/servers/remote/list-tools');
+    expect(tools.json.map((tool: any) => tool.name)).toEqual(['echo']);
+  });
+
+  test('accepts an empty command on a URL server', async () => {
+    const added = await call('POST', '/servers', {
+      name: 'http',
+      config: { type: 'http', url: remoteUrl, command: '' },
+    });
+    expect(added.status).toBe(200);
+    expect((await call('POST', '/servers/http/start')).status).toBe(200);
+  });
+
+  test('still requires a command on a stdio server', async () => {
+    const added = await call('POST', '/servers', { name: 'local', config: { command: '' } });
+    expect(added.status).toBe(400);
+  });
+});
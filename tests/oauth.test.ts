@@ -0,0 +1,208 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+import express, { Router } from 'express';
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { mcpInit, stopAllMcpServers, unwatchAllMcpSettings } from '../src/mcp';
+
+// Tokens are refreshed a minute before they expire, so these are refreshed after two seconds
+const TOKEN_LIFETIME = 62;
+
+/**
+ * Streamable HTTP MCP server that is its own authorization server, with discovery, dynamic client registration,
+ * PKCE and refresh tokens
+ */
+function createProtectedServer() {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  let base = '';
+  const requests: { path: string; body: any }[] = [];
+  const codes: Map<string, any> = new Map();
+  const accessTokens: Set<string> = new Set();
+  const refreshTokens: Set<string> = new Set();
+
+  const issueTokens = (response: express.Response) => {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    accessTokens.add(accessToken);
+    refreshTokens.add(refreshToken);
+    response.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: TOKEN_LIFETIME,
+      refresh_token: refreshToken,
+    });
+  };
+
+  app.use((request, _response, next) => {
+    requests.push({ path: request.path, body: request.body });
+    next();
+  });
+  app.get('/.well-known/oauth-protected-resource/mcp', (_request, response) => {
+    response.json({ resource: `${base}/mcp`, authorization_servers: [`${base}/auth`], scopes_supported: ['mcp'] });
+  });
+  app.get('/.well-known/oauth-authorization-server/auth', (_request, response) => {
+    response.json({
+      issuer: `${base}/auth`,
+      authorization_endpoint: `${base}/auth/authorize`,
+      token_endpoint: `${base}/auth/token`,
+      registration_endpoint: `${base}/auth/register`,
+      code_challenge_methods_supported: ['S256'],
+    });
+  });
+  app.post('/auth/register', (request, response) => {
+    response.status(201).json({ ...request.body, client_id: randomUUID() });
+  });
+  app.get('/auth/authorize', (request, response) => {
+    const code = randomUUID();
+    codes.set(code, request.query);
+    response.redirect(`${request.query.redirect_uri}?code=${code}&state=${request.query.state}`);
+  });
+  app.post('/auth/token', (request, response) => {
+    const { grant_type, code, code_verifier, refresh_token } = request.body;
+    if (grant_type === 'authorization_code') {
+      const authorization = codes.get(code);
+      codes.delete(code);
+      const challenge = code_verifier && createHash('sha256').update(code_verifier).digest('base64url');
+      if (authorization && challenge === authorization.code_challenge) {
+        return issueTokens(response);
+      }
+    } else if (grant_type === 'refresh_token' && refreshTokens.delete(refresh_token)) {
+      return issueTokens(response);
+    }
+    response.status(400).json({ error: 'invalid_grant' });
+  });
+  app.post('/mcp', (request, response) => {
+    const token = request.get('authorization')?.replace(/^Bearer /, '');
+    if (!token || !accessTokens.has(token)) {
+      response.set('WWW-Authenticate', `Bearer resource_metadata="${base}/.well-known/oauth-protected-resource/mcp"`);
+      response.status(401).json({ error: 'invalid_token' });
+      return;
+    }
+
+    const message = request.body;
+    if (message.id === undefined) {
+      response.status(202).end();
+      return;
+    }
+    const result =
+      message.method === 'initialize'
+        ? { protocolVersion: message.params.protocolVersion, capabilities: { tools: {} } }
+        : message.method === 'tools/list'
+          ? { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] }
+          : {};
+    response.json({ jsonrpc: '2.0', id: message.id, result });
+  });
+
+  const server = http.createServer(app);
+  return {
+    server,
+    requests,
+    setBase: (url: string) => (base = url),
+  };
+}
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('OAuth authorization', () => {
+  let root: string;
+  let plugin: http.Server;
+  let remote: ReturnType<typeof createProtectedServer>;
+  let pluginUrl: string;
+  let remoteUrl: string;
+
+  const call = async (method: string, route: string, body?: unknown) => {
+    const res = await fetch(`${pluginUrl}/api/plugins/mcp${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, json: (await res.json()) as any };
+  };
+
+  beforeAll(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-test-'));
+    const app = express();
+    app.use((request: any, _response, next) => {
+      request.user = { profile: { handle: 'test-user' }, directories: { root } };
+      next();
+    });
+    const router = Router();
+    await mcpInit(router);
+    app.use('/api/plugins/mcp', router);
+
+    plugin = http.createServer(app);
+    remote = createProtectedServer();
+    pluginUrl = await listen(plugin);
+    remoteUrl = remote.setBase(await listen(remote.server)) + '/mcp';
+  });
+
+  afterAll(async () => {
+    await stopAllMcpServers();
+    unwatchAllMcpSettings();
+    await new Promise((resolve) => plugin.close(resolve));
+    await new Promise((resolve) => remote.server.close(resolve));
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('authorizes a server with discovery, client registration and PKCE, then refreshes its token', async () => {
+    expect(
+      (await call('POST', '/servers', { name: 'remote', config: { type: 'streamableHttp', url: remoteUrl } })).status,
+    ).toBe(200);
+
+    // The start waits until the user completes the flow in the browser
+    const start = call('POST', '/servers/remote/start');
+    let pending: any[] = [];
+    for (let i = 0; i < 50 && pending.length === 0; i++) {
+      await sleep(100);
+      pending = (await call('GET', '/oauth/pending')).json;
+    }
+    expect(pending).toHaveLength(1);
+
+    const authorizationUrl = new URL(pending[0].authorizationUrl);
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe(remoteUrl.replace(/\/mcp$/, '/auth/authorize'));
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizationUrl.searchParams.get('resource')).toBe(remoteUrl);
+    expect(authorizationUrl.searchParams.get('scope')).toBe('mcp');
+
+    const callback = await fetch(authorizationUrl);
+    expect(callback.status).toBe(200);
+    expect((await start).status).toBe(200);
+
+    const paths = remote.requests.map((request) => request.path);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        '/.well-known/oauth-protected-resource/mcp',
+        '/.well-known/oauth-authorization-server/auth',
+        '/auth/register',
+        '/auth/token',
+      ]),
+    );
+    const registration = remote.requests.find((request) => request.path === '/auth/register')!;
+    expect(registration.body.redirect_uris).toEqual([`${pluginUrl}/api/plugins/mcp/oauth/callback`]);
+    const exchange = remote.requests.find((request) => request.body?.grant_type === 'authorization_code')!;
+    expect(exchange.body.resource).toBe(remoteUrl);
+
+    // Tokens are stored encrypted
+    const stored = JSON.parse(fs.readFileSync(path.join(root, 'mcp_oauth.json'), 'utf-8')).remote;
+    expect(stored.tokens.access_token).toMatch(/^encrypted:v1:/);
+    expect(stored.tokens.refresh_token).toMatch(/^encrypted:v1:/);
+
+    await sleep(2100);
+    const reloaded = await call('POST', '/servers/remote/reload-tools');
+    expect(reloaded.status).toBe(200);
+    const refresh = remote.requests.find((request) => request.body?.grant_type === 'refresh_token');
+    expect(refresh?.body.resource).toBe(remoteUrl);
+  }, 15000);
+});